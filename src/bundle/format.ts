@@ -0,0 +1,126 @@
+import {
+  readFileSync,
+  writeFileSync,
+  readdirSync,
+  existsSync,
+  mkdirSync,
+  statSync,
+} from "fs";
+import { dirname, join } from "path";
+import { parse, stringify } from "yaml";
+import type { Conversation, ConversationChunkInsert } from "../types.js";
+
+export type BundleFormat = "markdown" | "jsonl";
+
+/**
+ * One exported conversation. Chunks are only present when embeddings
+ * were exported too.
+ */
+export interface BundleRecord extends Conversation {
+  chunks?: ConversationChunkInsert[];
+}
+
+// Front matter keys in the order they are written
+const FRONT_MATTER_KEYS = [
+  "id",
+  "title",
+  "user_id",
+  "author_name",
+  "team_id",
+  "is_public",
+  "tags",
+  "repo_context",
+  "file_context",
+  "parent_id",
+  "thread_position",
+  "summary",
+  "created_at",
+  "updated_at",
+] as const;
+
+/**
+ * File name for a markdown record: date, title slug and short ID, so a
+ * directory listing reads like a changelog
+ */
+function recordFileName(record: BundleRecord): string {
+  const slug = record.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${record.created_at.slice(0, 10)}-${slug || "conversation"}-${record.id.slice(0, 8)}.md`;
+}
+
+/**
+ * Render a record as markdown with YAML front matter. The body is the
+ * conversation content, unchanged.
+ */
+export function toMarkdown(record: BundleRecord): string {
+  const frontMatter = Object.fromEntries(
+    FRONT_MATTER_KEYS.map((key) => [key, record[key] ?? null])
+  );
+  return `---\n${stringify(frontMatter)}---\n\n${record.content}`;
+}
+
+export function fromMarkdown(text: string, source: string): BundleRecord {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`${source}: missing YAML front matter`);
+  }
+
+  const record = { ...parse(match[1]), content: match[2] } as BundleRecord;
+  if (!record.id || !record.title) {
+    throw new Error(`${source}: front matter needs at least id and title`);
+  }
+  return record;
+}
+
+/**
+ * Write records as a directory of markdown files or a single JSONL file
+ */
+export function writeBundle(path: string, format: BundleFormat, records: BundleRecord[]): void {
+  if (format === "jsonl") {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, records.map((r) => JSON.stringify(r)).join("\n") + "\n", "utf-8");
+    return;
+  }
+
+  if (records.some((r) => r.chunks)) {
+    throw new Error("Embeddings can only be exported in the jsonl format");
+  }
+  mkdirSync(path, { recursive: true });
+  for (const record of records) {
+    writeFileSync(join(path, recordFileName(record)), toMarkdown(record), "utf-8");
+  }
+}
+
+/**
+ * Read a bundle: a directory of markdown files, a single markdown file
+ * or a JSONL file
+ */
+export function readBundle(path: string): BundleRecord[] {
+  if (!existsSync(path)) {
+    throw new Error(`Bundle not found: ${path}`);
+  }
+
+  if (statSync(path).isDirectory()) {
+    return readdirSync(path)
+      .filter((file) => file.endsWith(".md"))
+      .sort()
+      .map((file) => fromMarkdown(readFileSync(join(path, file), "utf-8"), file));
+  }
+
+  const text = readFileSync(path, "utf-8");
+  if (path.endsWith(".md")) {
+    return [fromMarkdown(text, path)];
+  }
+
+  return text.split("\n").flatMap((line, i) => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line) as BundleRecord];
+    } catch {
+      throw new Error(`${path}:${i + 1}: invalid JSON`);
+    }
+  });
+}
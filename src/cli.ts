@@ -0,0 +1,590 @@
+#!/usr/bin/env node
+
+import { parseArgs } from "util";
+import { basename, extname } from "path";
+import type { z } from "zod";
+
+import { createStore, verifyIdentity } from "./db/store.js";
+import { checkSchema, runMigrations } from "./db/migrations.js";
+import { createEmbeddingProvider } from "./embeddings/provider.js";
+import { loadRedactor } from "./redaction/redactor.js";
+import { createSummarizer } from "./summaries/summarizer.js";
+import { loadConfig, resolveTeam } from "./types.js";
+import type { Conversation, SearchResult } from "./types.js";
+import { exportConversations, importConversations } from "./tools/bundle.js";
+import { SaveConversationSchema, saveConversation } from "./tools/save.js";
+import {
+  SearchConversationsSchema,
+  searchConversations,
+  searchAllTeams,
+  excerptPassage,
+  formatSimilarity,
+} from "./tools/search.js";
+import {
+  GetConversationSchema,
+  ListConversationsSchema,
+  DeleteConversationSchema,
+  getConversation,
+  selectTurns,
+  listConversations,
+  deleteConversation,
+} from "./tools/retrieve.js";
+import { formatAuthor } from "./tools/profile.js";
+import { renderThread } from "./resources.js";
+
+const USAGE = `Usage:
+  lytics-team-mcp                       Run the MCP server (stdio, or HTTP with MCP_TRANSPORT=http)
+  lytics-team-mcp search <query> [--limit <n>] [--mode vector|keyword|hybrid] [--tag <tag>]... [--repo <name>] [--private] [--all-teams] [--team <id>] [--json]
+  lytics-team-mcp list [--mine] [--tag <tag>]... [--limit <n>] [--team <id>] [--json]
+  lytics-team-mcp get <id> [--final-answer] [--team <id>] [--json]
+  lytics-team-mcp save <file> [--title <title>] [--tag <tag>]... [--repo <name>] [--private] [--format <format>] [--on-duplicate ask|skip|merge|force] [--team <id>] [--json]
+  lytics-team-mcp delete <id> [--team <id>] [--json]
+  lytics-team-mcp whoami [--json]
+  lytics-team-mcp export <path> [--format markdown|jsonl] [--mine] [--tag <tag>]... [--embeddings] [--team <id>] [--json]
+  lytics-team-mcp import <path> [--new-ids] [--on-conflict skip|overwrite|new_id] [--reembed] [--team <id>] [--json]
+  lytics-team-mcp migrate [--baseline <version>] [--dry-run] [--json]     Needs DATABASE_URL`;
+
+/**
+ * Load the configuration and sign in, as the server does on startup
+ */
+async function connect() {
+  const config = loadConfig();
+  const db = createStore(config);
+  await checkSchema(db);
+  await verifyIdentity(config, db);
+  return { config, db };
+}
+
+/**
+ * Validate options with the tool's own schema, so the CLI accepts exactly
+ * what the MCP tool does
+ */
+function parseInput<T extends z.ZodTypeAny>(schema: T, input: unknown): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new Error(
+      result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("\n")
+    );
+  }
+  return result.data;
+}
+
+function parseLimit(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const limit = Number(value);
+  if (!Number.isInteger(limit)) {
+    throw new Error(`--limit must be a whole number, got "${value}"`);
+  }
+  return limit;
+}
+
+function printJson(value: unknown) {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function formatListEntry(c: Conversation): string {
+  const details = [
+    formatAuthor(c),
+    c.created_at.slice(0, 10),
+    ...(c.is_public ? [] : ["private"]),
+    ...(c.tags.length > 0 ? [c.tags.join(", ")] : []),
+  ];
+  return `${c.id}  ${c.title}\n    ${details.join(" · ")}`;
+}
+
+async function runSearch(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      limit: { type: "string" },
+      mode: { type: "string" },
+      tag: { type: "string", multiple: true },
+      repo: { type: "string" },
+      private: { type: "boolean", default: false },
+      "all-teams": { type: "boolean", default: false },
+      team: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+  if (positionals.length === 0) {
+    throw new Error(USAGE);
+  }
+
+  const input = parseInput(SearchConversationsSchema, {
+    query: positionals.join(" "),
+    limit: parseLimit(values.limit),
+    mode: values.mode,
+    tags: values.tag,
+    repo_context: values.repo,
+    include_private: values.private,
+    all_teams: values["all-teams"],
+  });
+
+  const { config, db } = await connect();
+  const embeddings = createEmbeddingProvider(config);
+  const results: (SearchResult & { team_id?: string })[] = input.all_teams
+    ? await searchAllTeams(input, db, embeddings, config.teamIds, config.userId)
+    : await searchConversations(
+        input,
+        db,
+        embeddings,
+        resolveTeam(config, values.team),
+        config.userId
+      );
+
+  if (values.json) {
+    printJson(results);
+    return;
+  }
+  if (results.length === 0) {
+    console.log("No related conversations found.");
+    return;
+  }
+  results.forEach((r, i) => {
+    const details = [
+      formatAuthor(r),
+      r.created_at.slice(0, 10),
+      ...(r.team_id ? [`team ${r.team_id}`] : []),
+      ...(r.similarity !== null ? [formatSimilarity(r.similarity)] : []),
+      ...(r.tags.length > 0 ? [r.tags.join(", ")] : []),
+    ];
+    console.log(`${i + 1}. ${r.title}  (${r.id})`);
+    console.log(`   ${details.join(" · ")}`);
+    const passage = excerptPassage(r.summary || r.matched_passage, 200);
+    if (passage) {
+      console.log(`   ${passage.replace(/\s*\n\s*/g, " ")}`);
+    }
+    console.log("");
+  });
+}
+
+async function runList(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      mine: { type: "boolean", default: false },
+      tag: { type: "string", multiple: true },
+      limit: { type: "string" },
+      team: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+  if (positionals.length !== 0) {
+    throw new Error(USAGE);
+  }
+
+  const input = parseInput(ListConversationsSchema, {
+    only_mine: values.mine,
+    tags: values.tag,
+    limit: parseLimit(values.limit),
+  });
+
+  const { config, db } = await connect();
+  const conversations = await listConversations(
+    input,
+    db,
+    resolveTeam(config, values.team),
+    config.userId
+  );
+
+  if (values.json) {
+    printJson(conversations);
+    return;
+  }
+  if (conversations.length === 0) {
+    console.log("No conversations found.");
+    return;
+  }
+  console.log(conversations.map(formatListEntry).join("\n"));
+}
+
+async function runGet(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "final-answer": { type: "boolean", default: false },
+      team: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new Error(USAGE);
+  }
+
+  const input = parseInput(GetConversationSchema, {
+    id: positionals[0],
+    final_answer: values["final-answer"],
+  });
+
+  const { config, db } = await connect();
+  const thread = await getConversation(
+    input,
+    db,
+    resolveTeam(config, values.team),
+    config.userId
+  );
+  if (!thread) {
+    throw new Error("Conversation not found or you don't have access to it.");
+  }
+
+  if (input.final_answer) {
+    const selected = selectTurns(thread, input);
+    const answer = selected?.turns[0];
+    if (!answer) {
+      throw new Error("This conversation has no recognised assistant reply.");
+    }
+    if (values.json) {
+      printJson(answer);
+    } else {
+      console.log(answer.content);
+    }
+    return;
+  }
+
+  if (values.json) {
+    printJson(thread);
+  } else {
+    console.log(renderThread(thread));
+  }
+}
+
+async function runSave(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      title: { type: "string" },
+      tag: { type: "string", multiple: true },
+      repo: { type: "string" },
+      private: { type: "boolean", default: false },
+      format: { type: "string" },
+      "on-duplicate": { type: "string" },
+      team: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new Error(USAGE);
+  }
+  const file = positionals[0];
+
+  const input = parseInput(SaveConversationSchema, {
+    // Name the entry after the file unless a title is given
+    title: values.title || basename(file, extname(file)),
+    file_path: file,
+    format: values.format,
+    is_public: !values.private,
+    tags: values.tag,
+    repo_context: values.repo,
+    auto_find_export: false,
+    on_duplicate: values["on-duplicate"],
+  });
+
+  const { config, db } = await connect();
+  const result = await saveConversation(
+    input,
+    db,
+    createEmbeddingProvider(config),
+    resolveTeam(config, values.team),
+    config.userId,
+    {
+      duplicateThreshold: config.duplicateThreshold,
+      redactor: loadRedactor(config),
+      summarizer: createSummarizer(config),
+    }
+  );
+  if (result.status === "duplicate") {
+    process.exitCode = 1;
+  }
+
+  if (values.json) {
+    printJson(result);
+    return;
+  }
+  switch (result.status) {
+    case "duplicate":
+      console.log("Not saved: near-duplicates already exist:");
+      for (const d of result.duplicates || []) {
+        console.log(`  ${d.id}  ${d.title} (${d.author}, ${(d.similarity * 100).toFixed(1)}%)`);
+      }
+      console.log("Pass --on-duplicate skip, merge or force to decide.");
+      return;
+    case "skipped":
+      console.log(`Skipped: a near-duplicate is already saved as ${result.id}`);
+      break;
+    case "merged":
+      console.log(`Merged into your existing conversation ${result.id}`);
+      break;
+    case "saved":
+      console.log(
+        result.thread_id
+          ? `Saved ${result.id} as session ${result.thread_position} of ${result.thread_id}`
+          : `Saved ${result.id}`
+      );
+      break;
+  }
+  for (const warning of result.warnings || []) {
+    console.error(`Warning: ${warning}`);
+  }
+}
+
+async function runDelete(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      team: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new Error(USAGE);
+  }
+
+  const input = parseInput(DeleteConversationSchema, { id: positionals[0] });
+
+  const { config, db } = await connect();
+  const result = await deleteConversation(
+    input,
+    db,
+    resolveTeam(config, values.team),
+    config.userId
+  );
+  if (!result.success) {
+    process.exitCode = 1;
+  }
+
+  if (values.json) {
+    printJson(result);
+  } else {
+    console.log(
+      result.success
+        ? `Deleted ${input.id}`
+        : "Failed to delete: conversation not found or you don't own it."
+    );
+  }
+}
+
+async function runWhoami(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const { config } = await connect();
+  const identity = {
+    user_id: config.userId,
+    team_id: config.teamId,
+    teams: config.teamIds,
+    verified: Boolean(config.apiToken),
+    storage: config.storageBackend,
+  };
+
+  if (values.json) {
+    printJson(identity);
+    return;
+  }
+  console.log(`User:    ${identity.user_id}${identity.verified ? " (verified by LYTICS_API_TOKEN)" : ""}`);
+  console.log(`Team:    ${identity.team_id}`);
+  console.log(`Teams:   ${identity.teams.join(", ")}`);
+  console.log(`Storage: ${identity.storage}`);
+}
+
+async function runExport(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", default: "markdown" },
+      mine: { type: "boolean", default: false },
+      tag: { type: "string", multiple: true },
+      embeddings: { type: "boolean", default: false },
+      team: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new Error(USAGE);
+  }
+  if (values.format !== "markdown" && values.format !== "jsonl") {
+    throw new Error(`Unknown format: ${values.format}`);
+  }
+
+  const { config, db } = await connect();
+
+  const result = await exportConversations(
+    {
+      path: positionals[0],
+      format: values.format,
+      only_mine: values.mine,
+      tags: values.tag,
+      include_embeddings: values.embeddings,
+    },
+    db,
+    resolveTeam(config, values.team),
+    config.userId
+  );
+
+  if (values.json) {
+    printJson(result);
+    return;
+  }
+  console.log(
+    `Exported ${result.exported} conversation(s) in ${result.threads} thread(s) to ${result.path}`
+  );
+}
+
+async function runImport(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "new-ids": { type: "boolean", default: false },
+      "on-conflict": { type: "string", default: "skip" },
+      reembed: { type: "boolean", default: false },
+      team: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new Error(USAGE);
+  }
+  const onConflict = values["on-conflict"];
+  if (onConflict !== "skip" && onConflict !== "overwrite" && onConflict !== "new_id") {
+    throw new Error(`Unknown --on-conflict value: ${onConflict}`);
+  }
+
+  const { config, db } = await connect();
+
+  const result = await importConversations(
+    {
+      path: positionals[0],
+      preserve_ids: !values["new-ids"],
+      on_conflict: onConflict,
+      reembed: values.reembed,
+    },
+    db,
+    createEmbeddingProvider(config),
+    resolveTeam(config, values.team),
+    config.userId,
+    { redactor: loadRedactor(config) }
+  );
+  if (result.failed.length > 0) {
+    process.exitCode = 1;
+  }
+
+  if (values.json) {
+    printJson(result);
+    return;
+  }
+  console.log(
+    `Imported ${result.imported}, overwrote ${result.overwritten}, skipped ${result.skipped}`
+  );
+  for (const failure of result.failed) {
+    console.error(`Failed: ${failure.title} (${failure.id}): ${failure.error}`);
+  }
+}
+
+async function runMigrate(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      baseline: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  // Schema changes need a direct connection; the Supabase API can't run DDL
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error(
+      "DATABASE_URL is required: the Postgres connection string from Supabase Settings → Database"
+    );
+  }
+
+  const result = await runMigrations(databaseUrl, {
+    baseline: values.baseline,
+    dryRun: values["dry-run"],
+  });
+
+  if (values.json) {
+    const describe = (list: typeof result.applied) =>
+      list.map((m) => ({ version: m.version, name: m.name }));
+    printJson({
+      dry_run: values["dry-run"],
+      applied: describe(result.applied),
+      baselined: describe(result.baselined),
+      changed: describe(result.changed),
+    });
+    return;
+  }
+  const verb = values["dry-run"] ? "Would apply" : "Applied";
+  for (const m of result.baselined) {
+    console.log(`${values["dry-run"] ? "Would record" : "Recorded"} ${m.version}_${m.name} (baseline)`);
+  }
+  for (const m of result.applied) {
+    console.log(`${verb} ${m.version}_${m.name}`);
+  }
+  for (const m of result.changed) {
+    console.error(`Warning: ${m.version}_${m.name} changed since it was applied`);
+  }
+  if (result.applied.length === 0 && result.baselined.length === 0) {
+    console.log("The database schema is up to date.");
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case undefined:
+      // No subcommand: start the MCP server
+      await import("./index.js");
+      break;
+    case "search":
+      await runSearch(args);
+      break;
+    case "list":
+      await runList(args);
+      break;
+    case "get":
+      await runGet(args);
+      break;
+    case "save":
+      await runSave(args);
+      break;
+    case "delete":
+      await runDelete(args);
+      break;
+    case "whoami":
+      await runWhoami(args);
+      break;
+    case "export":
+      await runExport(args);
+      break;
+    case "import":
+      await runImport(args);
+      break;
+    case "migrate":
+      await runMigrate(args);
+      break;
+    case "help":
+    case "--help":
+    case "-h":
+      console.log(USAGE);
+      break;
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
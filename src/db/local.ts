@@ -0,0 +1,803 @@
+import { readFileSync, writeFileSync, renameSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { randomUUID } from "crypto";
+import type {
+  Conversation,
+  ConversationChunkInsert,
+  ConversationInsert,
+  ConversationShare,
+  ConversationUpdate,
+  ConversationVersion,
+  Group,
+  GroupUpsert,
+  ListConversationsOptions,
+  MemberIdentity,
+  Profile,
+  ProfileUpsert,
+  SearchFilters,
+  SearchResult,
+  SnippetInsert,
+  SnippetSearchOptions,
+  SnippetSearchResult,
+  TagDefinition,
+  TagUsage,
+} from "../types.js";
+import type { KnowledgeStore } from "./store.js";
+import { bm25Scores, cosineSimilarity, reciprocalRankFusion } from "./ranking.js";
+import { normalizeTag } from "./tags.js";
+
+type StoredVersion = Omit<ConversationVersion, "conversation_id" | "is_current">;
+
+type StoredSnippet = SnippetInsert & { id: string };
+
+interface StoredConversation extends Conversation {
+  embedding: number[];
+  chunks: ConversationChunkInsert[];
+  snippets?: StoredSnippet[];
+  // Previous revisions, oldest first
+  versions?: StoredVersion[];
+  // Users and groups a thread root is shared with
+  shares?: ConversationShare[];
+}
+
+// A searchable row together with the root of its thread
+interface ThreadRow {
+  row: StoredConversation;
+  root: StoredConversation;
+}
+
+interface StoreFile {
+  conversations: StoredConversation[];
+  profiles?: Profile[];
+  groups?: Group[];
+  tags?: TagDefinition[];
+}
+
+/**
+ * JSON-on-disk store for running without a Supabase project.
+ * Vector search is a brute-force cosine scan, which is fine for
+ * the few thousand conversations a single developer or CI run holds.
+ */
+export class LocalDB implements KnowledgeStore {
+  constructor(private filePath: string) {}
+
+  /**
+   * A local store belongs to whoever runs it
+   */
+  async authenticate(): Promise<MemberIdentity | null> {
+    return null;
+  }
+
+  /**
+   * The JSON file has no schema; its shape follows the code
+   */
+  async appliedMigrations(): Promise<string[] | null> {
+    return null;
+  }
+
+  /**
+   * Read the store from disk, returning an empty store if it doesn't exist yet
+   */
+  private read(): StoreFile {
+    if (!existsSync(this.filePath)) {
+      return { conversations: [] };
+    }
+    return JSON.parse(readFileSync(this.filePath, "utf-8")) as StoreFile;
+  }
+
+  /**
+   * Write the store to disk atomically (temp file + rename)
+   */
+  private write(store: StoreFile): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(store), "utf-8");
+    renameSync(tmpPath, this.filePath);
+  }
+
+  /**
+   * Strip embeddings and chunks before handing a row back to callers
+   */
+  private toConversation(row: StoredConversation): Conversation {
+    const { embedding, chunks, snippets, versions, shares, ...conversation } = row;
+    return conversation;
+  }
+
+  /**
+   * Whether a thread root is shared with the user directly or through a group
+   */
+  private isSharedWith(store: StoreFile, rootId: string, userId: string): boolean {
+    const root = store.conversations.find((c) => c.id === rootId);
+    if (!root?.shares) return false;
+
+    const groups = new Set(
+      (store.groups || [])
+        .filter((g) => g.team_id === root.team_id && g.members.includes(userId))
+        .map((g) => g.name)
+    );
+    return root.shares.some((share) =>
+      share.principal_type === "user" ? share.principal === userId : groups.has(share.principal)
+    );
+  }
+
+  /**
+   * Public, owned by the user, or shared with them through its thread root
+   */
+  private canView(store: StoreFile, row: StoredConversation, userId: string): boolean {
+    return (
+      row.is_public ||
+      row.user_id === userId ||
+      this.isSharedWith(store, row.parent_id || row.id, userId)
+    );
+  }
+
+  /**
+   * Fill in the author's display name on each conversation or search result
+   */
+  private withAuthorNames<T extends { user_id: string; author_name?: string | null }>(
+    items: T[],
+    teamId: string
+  ): T[] {
+    const profiles = (this.read().profiles || []).filter((p) => p.team_id === teamId);
+    const names = new Map(profiles.map((p) => [p.user_id, p.display_name]));
+    return items.map((item) => ({ ...item, author_name: names.get(item.user_id) ?? null }));
+  }
+
+  /**
+   * Record the current values of a row as a revision before it is changed
+   */
+  private snapshot(row: StoredConversation): void {
+    const versions = row.versions || [];
+    versions.push({
+      version: versions.length + 1,
+      title: row.title,
+      summary: row.summary,
+      content: row.content,
+      is_public: row.is_public,
+      tags: row.tags,
+      repo_context: row.repo_context,
+      file_context: row.file_context,
+      created_at: row.updated_at,
+    });
+    row.versions = versions;
+  }
+
+  /**
+   * Score a conversation by its best matching chunk, falling back to the
+   * whole-conversation embedding for entries saved before chunking
+   */
+  private bestMatch(
+    row: StoredConversation,
+    embedding: number[]
+  ): { similarity: number; chunk: ConversationChunkInsert | null } {
+    if (!row.chunks || row.chunks.length === 0) {
+      return { similarity: cosineSimilarity(embedding, row.embedding), chunk: null };
+    }
+
+    let best = { similarity: -Infinity, chunk: row.chunks[0] };
+    for (const chunk of row.chunks) {
+      const similarity = cosineSimilarity(embedding, chunk.embedding);
+      if (similarity > best.similarity) best = { similarity, chunk };
+    }
+    return best;
+  }
+
+  async saveConversation(conversation: ConversationInsert): Promise<string> {
+    const store = this.read();
+    const now = new Date().toISOString();
+    const id = conversation.id || randomUUID();
+
+    if (store.conversations.some((c) => c.id === id)) {
+      throw new Error(`Failed to save conversation: ${id} already exists`);
+    }
+
+    store.conversations.push({
+      id,
+      user_id: conversation.user_id,
+      team_id: conversation.team_id,
+      title: conversation.title,
+      summary: conversation.summary || null,
+      content: conversation.content,
+      embedding: conversation.embedding,
+      chunks: conversation.chunks || [],
+      snippets: (conversation.snippets || []).map((s) => ({ id: randomUUID(), ...s })),
+      messages: conversation.messages || null,
+      is_public: conversation.is_public,
+      tags: conversation.tags || [],
+      repo_context: conversation.repo_context || null,
+      file_context: conversation.file_context || [],
+      parent_id: conversation.parent_id || null,
+      thread_position: conversation.thread_position || 0,
+      created_at: conversation.created_at || now,
+      updated_at: conversation.updated_at || now,
+    });
+    this.write(store);
+
+    return id;
+  }
+
+  /**
+   * Conversations in the team the user may search, narrowed by the filters.
+   * Visibility and filters are decided by thread roots; sessions come along.
+   */
+  private searchable(
+    teamId: string,
+    userId: string,
+    includePrivate: boolean,
+    filters: SearchFilters
+  ): ThreadRow[] {
+    const tags = filters.tags || [];
+    const createdAfter = filters.createdAfter ? Date.parse(filters.createdAfter) : null;
+    const createdBefore = filters.createdBefore ? Date.parse(filters.createdBefore) : null;
+    const store = this.read();
+    const { conversations } = store;
+
+    const roots = conversations.filter((c) => {
+      const created = Date.parse(c.created_at);
+      return (
+        c.team_id === teamId &&
+        !c.parent_id &&
+        (c.is_public ||
+          (includePrivate && c.user_id === userId) ||
+          this.isSharedWith(store, c.id, userId)) &&
+        (tags.length === 0 ||
+          (filters.tagsMatch === "all"
+            ? tags.every((tag) => c.tags.includes(tag))
+            : tags.some((tag) => c.tags.includes(tag)))) &&
+        (!filters.repoContext ||
+          c.repo_context?.toLowerCase() === filters.repoContext.toLowerCase()) &&
+        (!filters.authorId || c.user_id === filters.authorId) &&
+        (createdAfter === null || created >= createdAfter) &&
+        (createdBefore === null || created <= createdBefore) &&
+        (!filters.filePathPrefix ||
+          c.file_context.some((path) => path.startsWith(filters.filePathPrefix!)))
+      );
+    });
+    const rootsById = new Map(roots.map((root) => [root.id, root]));
+
+    return conversations.flatMap((row) => {
+      const root = rootsById.get(row.parent_id || row.id);
+      return root ? [{ row, root }] : [];
+    });
+  }
+
+  /**
+   * Keep the best scoring hit per thread, best first
+   */
+  private bestPerThread(hits: SearchResult[]): SearchResult[] {
+    const best = new Map<string, SearchResult>();
+    for (const hit of hits) {
+      const current = best.get(hit.id);
+      if (!current || hit.score > current.score) best.set(hit.id, hit);
+    }
+    return [...best.values()].sort((a, b) => b.score - a.score);
+  }
+
+  private toSearchResult(
+    row: StoredConversation,
+    chunk: ConversationChunkInsert | null,
+    similarity: number | null,
+    score: number
+  ): SearchResult {
+    return {
+      id: row.id,
+      title: row.title,
+      summary: row.summary,
+      user_id: row.user_id,
+      // Filled in by withAuthorNames
+      author_name: null,
+      tags: row.tags,
+      similarity,
+      score,
+      created_at: row.created_at,
+      repo_context: row.repo_context,
+      matched_passage: chunk?.content ?? null,
+      matched_chunk_index: chunk?.chunk_index ?? null,
+    };
+  }
+
+  /**
+   * Vector hits above the similarity threshold, best first
+   */
+  private vectorHits(
+    rows: ThreadRow[],
+    embedding: number[],
+    minSimilarity: number = 0.7
+  ): SearchResult[] {
+    return this.bestPerThread(
+      rows
+        .map(({ row, root }) => {
+          const { similarity, chunk } = this.bestMatch(row, embedding);
+          return this.toSearchResult(root, chunk, similarity, similarity);
+        })
+        .filter((r) => r.score > minSimilarity)
+    );
+  }
+
+  /**
+   * Lexical hits ranked by the BM25 score of the best chunk, best first.
+   * Conversations saved before chunking are scored on their whole content.
+   */
+  private keywordHits(rows: ThreadRow[], query: string): SearchResult[] {
+    const documents = rows.flatMap(({ row, root }): {
+      root: StoredConversation;
+      chunk: ConversationChunkInsert | null;
+      text: string;
+    }[] =>
+      row.chunks && row.chunks.length > 0
+        ? row.chunks.map((chunk) => ({ root, chunk, text: chunk.content }))
+        : [{ root, chunk: null, text: row.content }]
+    );
+    const scores = bm25Scores(query, documents.map((d) => d.text));
+
+    return this.bestPerThread(
+      documents
+        .map((doc, i) => this.toSearchResult(doc.root, doc.chunk, null, scores[i]))
+        .filter((r) => r.score > 0)
+    );
+  }
+
+  async searchSimilar(
+    embedding: number[],
+    teamId: string,
+    userId: string,
+    limit: number = 5,
+    includePrivate: boolean = false,
+    filters: SearchFilters = {}
+  ): Promise<SearchResult[]> {
+    const rows = this.searchable(teamId, userId, includePrivate, filters);
+    return this.withAuthorNames(
+      this.vectorHits(rows, embedding, filters.minSimilarity).slice(0, limit),
+      teamId
+    );
+  }
+
+  async searchKeyword(
+    query: string,
+    teamId: string,
+    userId: string,
+    limit: number = 5,
+    includePrivate: boolean = false,
+    filters: SearchFilters = {}
+  ): Promise<SearchResult[]> {
+    const rows = this.searchable(teamId, userId, includePrivate, filters);
+    return this.withAuthorNames(this.keywordHits(rows, query).slice(0, limit), teamId);
+  }
+
+  async searchHybrid(
+    query: string,
+    embedding: number[],
+    teamId: string,
+    userId: string,
+    limit: number = 5,
+    includePrivate: boolean = false,
+    filters: SearchFilters = {}
+  ): Promise<SearchResult[]> {
+    const rows = this.searchable(teamId, userId, includePrivate, filters);
+    const vector = this.vectorHits(rows, embedding, filters.minSimilarity).slice(0, limit * 4);
+    const keyword = this.keywordHits(rows, query).slice(0, limit * 4);
+    const fused = reciprocalRankFusion([
+      vector.map((r) => r.id),
+      keyword.map((r) => r.id),
+    ]);
+
+    const vectorById = new Map(vector.map((r) => [r.id, r]));
+    const keywordById = new Map(keyword.map((r) => [r.id, r]));
+
+    const results = [...fused.entries()]
+      .map(([id, score]) => {
+        const vectorHit = vectorById.get(id);
+        // Prefer the keyword passage: it contains the exact term the user asked for
+        const hit = keywordById.get(id) ?? vectorHit!;
+        return { ...hit, similarity: vectorHit?.similarity ?? null, score };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return this.withAuthorNames(results, teamId);
+  }
+
+  async searchSnippets(
+    embedding: number[],
+    teamId: string,
+    userId: string,
+    options: SnippetSearchOptions = {}
+  ): Promise<SnippetSearchResult[]> {
+    const minSimilarity = options.minSimilarity ?? 0.5;
+    const rows = this.searchable(teamId, userId, options.includePrivate ?? false, {});
+
+    const hits = rows.flatMap(({ row }) =>
+      (row.snippets || [])
+        .filter((s) => !options.language || s.language === options.language)
+        .map((s): SnippetSearchResult => ({
+          id: s.id,
+          conversation_id: row.id,
+          conversation_title: row.title,
+          user_id: row.user_id,
+          // Filled in by withAuthorNames
+          author_name: null,
+          language: s.language,
+          file: s.file,
+          code: s.code,
+          explanation: s.explanation,
+          similarity: cosineSimilarity(s.embedding, embedding),
+          created_at: row.created_at,
+        }))
+        .filter((hit) => hit.similarity > minSimilarity)
+    );
+
+    return this.withAuthorNames(
+      hits.sort((a, b) => b.similarity - a.similarity).slice(0, options.limit ?? 5),
+      teamId
+    );
+  }
+
+  async getConversation(
+    id: string,
+    teamId: string,
+    userId: string
+  ): Promise<Conversation | null> {
+    const store = this.read();
+    const row = store.conversations.find(
+      (c) => c.id === id && c.team_id === teamId
+    );
+
+    // Check access - must be public or owned by user
+    if (!row || !this.canView(store, row, userId)) {
+      return null;
+    }
+
+    return this.withAuthorNames([this.toConversation(row)], teamId)[0];
+  }
+
+  async getConversationChunks(id: string): Promise<ConversationChunkInsert[]> {
+    const row = this.read().conversations.find((c) => c.id === id);
+    return row?.chunks || [];
+  }
+
+  async getConversationHistory(
+    id: string,
+    teamId: string,
+    userId: string
+  ): Promise<ConversationVersion[] | null> {
+    const store = this.read();
+    const row = store.conversations.find(
+      (c) => c.id === id && c.team_id === teamId
+    );
+
+    if (!row || !this.canView(store, row, userId)) {
+      return null;
+    }
+
+    const versions = row.versions || [];
+    return [
+      ...versions.map((v) => ({ ...v, conversation_id: row.id, is_current: false })),
+      {
+        conversation_id: row.id,
+        version: versions.length + 1,
+        title: row.title,
+        summary: row.summary,
+        content: row.content,
+        is_public: row.is_public,
+        tags: row.tags,
+        repo_context: row.repo_context,
+        file_context: row.file_context,
+        created_at: row.updated_at,
+        is_current: true,
+      },
+    ];
+  }
+
+  async getThreadSessions(
+    rootId: string,
+    teamId: string,
+    userId: string
+  ): Promise<Conversation[]> {
+    const store = this.read();
+    const conversations = store.conversations
+      .filter(
+        (c) =>
+          c.parent_id === rootId &&
+          c.team_id === teamId &&
+          this.canView(store, c, userId)
+      )
+      .sort((a, b) => a.thread_position - b.thread_position)
+      .map((c) => this.toConversation(c));
+
+    return this.withAuthorNames(conversations, teamId);
+  }
+
+  async listConversations(
+    teamId: string,
+    userId: string,
+    options: ListConversationsOptions = {}
+  ): Promise<Conversation[]> {
+    const limit = options.limit || 20;
+    const offset = options.offset || 0;
+    const tags = options.tags || [];
+
+    const store = this.read();
+    const conversations = store.conversations
+      .filter(
+        (c) =>
+          c.team_id === teamId &&
+          // Follow-up sessions are listed with their thread, not on their own
+          !c.parent_id &&
+          (options.onlyMine ? c.user_id === userId : this.canView(store, c, userId)) &&
+          tags.every((tag) => c.tags.includes(tag))
+      )
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(offset, offset + limit)
+      .map((c) => this.toConversation(c));
+
+    return this.withAuthorNames(conversations, teamId);
+  }
+
+  async deleteConversation(
+    id: string,
+    userId: string,
+    teamId: string
+  ): Promise<boolean> {
+    const store = this.read();
+    const owned = store.conversations.some(
+      (c) => c.id === id && c.user_id === userId && c.team_id === teamId
+    );
+    // Deleting a thread root removes its sessions too, like the FK cascade
+    store.conversations = store.conversations.filter(
+      (c) => !(owned && (c.id === id || c.parent_id === id))
+    );
+    if (owned) {
+      this.write(store);
+    }
+
+    return owned;
+  }
+
+  async updateVisibility(
+    id: string,
+    userId: string,
+    teamId: string,
+    isPublic: boolean
+  ): Promise<boolean> {
+    const store = this.read();
+    // Visibility applies to the whole thread
+    const rows = store.conversations.filter(
+      (c) =>
+        (c.id === id || c.parent_id === id) &&
+        c.user_id === userId &&
+        c.team_id === teamId
+    );
+
+    for (const row of rows) {
+      this.snapshot(row);
+      row.is_public = isPublic;
+      row.updated_at = new Date().toISOString();
+    }
+    if (rows.length > 0) {
+      this.write(store);
+    }
+
+    return rows.length > 0;
+  }
+
+  async updateConversation(
+    id: string,
+    userId: string,
+    teamId: string,
+    update: ConversationUpdate
+  ): Promise<boolean> {
+    const store = this.read();
+    const row = store.conversations.find(
+      (c) => c.id === id && c.user_id === userId && c.team_id === teamId
+    );
+
+    if (!row) {
+      return false;
+    }
+
+    this.snapshot(row);
+
+    // Skip fields that weren't provided, like a partial SQL update would
+    const { snippets, ...rest } = update;
+    const fields = Object.fromEntries(
+      Object.entries(rest).filter(([, value]) => value !== undefined)
+    );
+    Object.assign(row, fields, { updated_at: new Date().toISOString() });
+    if (snippets) {
+      row.snippets = snippets.map((s) => ({ id: randomUUID(), ...s }));
+    }
+    this.write(store);
+
+    return true;
+  }
+
+  async getProfile(userId: string, teamId: string): Promise<Profile | null> {
+    return (
+      (this.read().profiles || []).find(
+        (p) => p.user_id === userId && p.team_id === teamId
+      ) ?? null
+    );
+  }
+
+  async saveProfile(profile: ProfileUpsert): Promise<Profile> {
+    const store = this.read();
+    const profiles = store.profiles || [];
+    const now = new Date().toISOString();
+    const existing = profiles.find(
+      (p) => p.user_id === profile.user_id && p.team_id === profile.team_id
+    );
+
+    const saved: Profile = {
+      ...profile,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    };
+    store.profiles = [...profiles.filter((p) => p !== existing), saved];
+    this.write(store);
+
+    return saved;
+  }
+
+  async getConversationShares(
+    id: string,
+    userId: string,
+    teamId: string
+  ): Promise<ConversationShare[] | null> {
+    const row = this.read().conversations.find(
+      (c) => c.id === id && c.user_id === userId && c.team_id === teamId
+    );
+
+    return row ? row.shares || [] : null;
+  }
+
+  async shareConversation(
+    id: string,
+    userId: string,
+    teamId: string,
+    shares: ConversationShare[]
+  ): Promise<boolean> {
+    const store = this.read();
+    const row = store.conversations.find(
+      (c) => c.id === id && c.user_id === userId && c.team_id === teamId
+    );
+
+    if (!row) {
+      return false;
+    }
+
+    const existing = row.shares || [];
+    const added = shares.filter(
+      (share) =>
+        !existing.some(
+          (e) => e.principal_type === share.principal_type && e.principal === share.principal
+        )
+    );
+    row.shares = [...existing, ...added];
+    this.write(store);
+
+    return true;
+  }
+
+  async unshareConversation(
+    id: string,
+    userId: string,
+    teamId: string,
+    shares: ConversationShare[]
+  ): Promise<boolean> {
+    const store = this.read();
+    const row = store.conversations.find(
+      (c) => c.id === id && c.user_id === userId && c.team_id === teamId
+    );
+
+    if (!row) {
+      return false;
+    }
+
+    row.shares = (row.shares || []).filter(
+      (e) =>
+        !shares.some(
+          (share) => e.principal_type === share.principal_type && e.principal === share.principal
+        )
+    );
+    this.write(store);
+
+    return true;
+  }
+
+  async getGroup(name: string, teamId: string): Promise<Group | null> {
+    return (
+      (this.read().groups || []).find((g) => g.name === name && g.team_id === teamId) ??
+      null
+    );
+  }
+
+  async listGroups(teamId: string): Promise<Group[]> {
+    return (this.read().groups || [])
+      .filter((g) => g.team_id === teamId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveGroup(group: GroupUpsert): Promise<Group> {
+    const store = this.read();
+    const groups = store.groups || [];
+    const existing = groups.find((g) => g.name === group.name && g.team_id === group.team_id);
+
+    const saved: Group = {
+      ...group,
+      members: [...new Set(group.members)].sort(),
+      created_at: existing?.created_at ?? new Date().toISOString(),
+    };
+    store.groups = [...groups.filter((g) => g !== existing), saved];
+    this.write(store);
+
+    return saved;
+  }
+
+  async listTags(teamId: string): Promise<TagDefinition[]> {
+    return (this.read().tags || [])
+      .filter((t) => t.team_id === teamId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async countTags(teamId: string, userId: string): Promise<TagUsage[]> {
+    const store = this.read();
+    const counts = new Map<string, number>();
+    for (const row of store.conversations) {
+      if (row.team_id !== teamId || !this.canView(store, row, userId)) continue;
+      for (const tag of row.tags) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+
+    return [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  async mergeTags(
+    teamId: string,
+    userId: string,
+    sources: string[],
+    target: string
+  ): Promise<number> {
+    const store = this.read();
+    const now = new Date().toISOString();
+
+    // Every spelling of a source or the target, e.g. "Auth" for "auth"
+    const folded = new Set([...sources, target]);
+    const fold = (tag: string) => (folded.has(normalizeTag(tag)) ? target : tag);
+
+    // Every member's entries, private ones included, so tag filters stay complete
+    let changed = 0;
+    for (const row of store.conversations) {
+      if (row.team_id !== teamId || row.tags.every((tag) => fold(tag) === tag)) {
+        continue;
+      }
+      this.snapshot(row);
+      row.tags = [...new Set(row.tags.map(fold))];
+      row.updated_at = now;
+      changed++;
+    }
+
+    const tags = store.tags || [];
+    const merged = tags.filter(
+      (t) => t.team_id === teamId && (t.name === target || sources.includes(t.name))
+    );
+    const aliases = new Set([...sources, ...merged.flatMap((t) => t.aliases)]);
+    aliases.delete(target);
+
+    store.tags = [
+      ...tags.filter((t) => !merged.includes(t)),
+      {
+        team_id: teamId,
+        name: target,
+        aliases: [...aliases].sort(),
+        updated_by: userId,
+        updated_at: now,
+      },
+    ];
+    this.write(store);
+
+    return changed;
+  }
+}
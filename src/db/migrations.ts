@@ -0,0 +1,191 @@
+import { readFileSync, readdirSync } from "fs";
+import { createHash } from "crypto";
+import { fileURLToPath } from "url";
+import pg from "pg";
+
+import type { KnowledgeStore } from "./store.js";
+
+// Shipped with the package, next to dist/
+const MIGRATIONS_DIR = fileURLToPath(new URL("../../supabase/migrations/", import.meta.url));
+
+// Any constant works, as long as every runner uses the same one
+const MIGRATION_LOCK_KEY = 74251123;
+
+// Created before the first migration, so it can record that one too.
+// The server reads the versions through applied_migrations(), which works
+// with the anon key.
+const TRACKING_SQL = `
+create table if not exists schema_migrations (
+  version text primary key,
+  name text not null,
+  checksum text not null,
+  applied_at timestamptz not null default now()
+);
+
+alter table schema_migrations enable row level security;
+
+create or replace function applied_migrations()
+returns table (version text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select version from schema_migrations order by version;
+$$;
+`;
+
+export interface Migration {
+  // The number in the file name, e.g. "007"
+  version: string;
+  name: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface MigrationRun {
+  applied: Migration[];
+  // Recorded as applied without running, for schemas set up by hand
+  baselined: Migration[];
+  // Applied earlier, but the file has changed since
+  changed: Migration[];
+}
+
+/**
+ * The migrations this version of the server expects, in order.
+ * 000_reset.sql drops everything and is never run by the runner.
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  return readdirSync(dir)
+    .map((file) => ({ file, match: /^(\d+)_(.+)\.sql$/.exec(file) }))
+    .filter(({ match }) => match && Number(match[1]) > 0)
+    .sort((a, b) => a.file.localeCompare(b.file))
+    .map(({ file, match }) => {
+      const sql = readFileSync(`${dir}/${file}`, "utf-8");
+      return {
+        version: match![1],
+        name: match![2],
+        sql,
+        checksum: createHash("sha256").update(sql).digest("hex"),
+      };
+    });
+}
+
+/**
+ * Refuse to run against a database whose schema doesn't match this version
+ * of the server, saying which side needs to be upgraded
+ */
+export async function checkSchema(db: KnowledgeStore): Promise<void> {
+  const applied = await db.appliedMigrations();
+  if (applied === null) return;
+
+  const known = loadMigrations().map((m) => m.version);
+  const unknown = applied.filter((version) => !known.includes(version));
+  if (unknown.length > 0) {
+    throw new Error(
+      `The database schema is newer than this server: it has migration(s) ${unknown.join(", ")}, which this version doesn't know. Upgrade lytics-team-mcp.`
+    );
+  }
+  const pending = known.filter((version) => !applied.includes(version));
+  if (pending.length > 0) {
+    throw new Error(
+      `The database schema is behind this server: migration(s) ${pending.join(", ")} haven't been applied. Ask an admin to run \`lytics-team-mcp migrate\`.`
+    );
+  }
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction together
+ * with its schema_migrations row. A database set up by hand before migrations
+ * were tracked is first baselined: migrations up to and including `baseline`
+ * are recorded without running them.
+ */
+export async function runMigrations(
+  databaseUrl: string,
+  options: { baseline?: string; dryRun?: boolean } = {}
+): Promise<MigrationRun> {
+  const migrations = loadMigrations();
+  const client = new pg.Client({ connectionString: databaseUrl });
+  await client.connect();
+
+  try {
+    // Another runner waits here until this one is done
+    await client.query("select pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+
+    const { rows: [state] } = await client.query<{ tracked: boolean; populated: boolean }>(
+      `select to_regclass('schema_migrations') is not null as tracked,
+              to_regclass('conversations') is not null as populated`
+    );
+    if (!options.dryRun) {
+      await client.query(TRACKING_SQL);
+    }
+
+    const { rows } = state.tracked
+      ? await client.query<{ version: string; checksum: string }>(
+          "select version, checksum from schema_migrations order by version"
+        )
+      : { rows: [] };
+    if (rows.length === 0 && state.populated && !options.baseline) {
+      throw new Error(
+        "This database was set up without the migration runner. Pass --baseline with the last migration you applied by hand (e.g. --baseline 012)."
+      );
+    }
+    const applied = new Map(rows.map((row) => [row.version, row.checksum]));
+
+    const unknown = rows.filter((row) => !migrations.some((m) => m.version === row.version));
+    if (unknown.length > 0) {
+      throw new Error(
+        `The database has migration(s) ${unknown.map((row) => row.version).join(", ")} that this version doesn't know. Upgrade lytics-team-mcp before migrating.`
+      );
+    }
+
+    const changed = migrations.filter(
+      (m) => applied.has(m.version) && applied.get(m.version) !== m.checksum
+    );
+    let pending = migrations.filter((m) => !applied.has(m.version));
+
+    let baselined: Migration[] = [];
+    if (options.baseline) {
+      if (applied.size > 0) {
+        throw new Error("--baseline is only for databases whose migrations were never tracked");
+      }
+      const baseline = options.baseline.padStart(3, "0");
+      if (!migrations.some((m) => m.version === baseline)) {
+        throw new Error(`Unknown migration for --baseline: ${options.baseline}`);
+      }
+      baselined = pending.filter((m) => m.version <= baseline);
+      pending = pending.filter((m) => m.version > baseline);
+    }
+
+    if (!options.dryRun) {
+      for (const m of baselined) {
+        await client.query(
+          "insert into schema_migrations (version, name, checksum) values ($1, $2, $3)",
+          [m.version, m.name, m.checksum]
+        );
+      }
+
+      for (const m of pending) {
+        await client.query("begin");
+        try {
+          await client.query(m.sql);
+          await client.query(
+            "insert into schema_migrations (version, name, checksum) values ($1, $2, $3)",
+            [m.version, m.name, m.checksum]
+          );
+          await client.query("commit");
+        } catch (error) {
+          await client.query("rollback");
+          throw new Error(
+            `Migration ${m.version}_${m.name} failed and was rolled back: ${(error as Error).message}`
+          );
+        }
+      }
+    }
+
+    return { applied: pending, baselined, changed };
+  } finally {
+    // Closing the connection also releases the lock
+    await client.end();
+  }
+}
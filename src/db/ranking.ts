@@ -0,0 +1,74 @@
+/**
+ * Ranking helpers for backends that search in-process
+ */
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Lowercase word tokens. Underscores are kept so identifiers like
+ * `ERR_CONNECTION_REFUSED` stay a single term.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9_]+/g) || [];
+}
+
+/**
+ * Score documents against a query with Okapi BM25.
+ * Returns one score per document; 0 means no query term matched.
+ */
+export function bm25Scores(query: string, documents: string[]): number[] {
+  const k1 = 1.2;
+  const b = 0.75;
+  const terms = [...new Set(tokenize(query))];
+  const docs = documents.map(tokenize);
+  if (terms.length === 0 || docs.length === 0) return docs.map(() => 0);
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const term of terms) {
+    documentFrequency.set(term, docs.filter((d) => d.includes(term)).length);
+  }
+
+  return docs.map((doc) => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = doc.filter((t) => t === term).length;
+      if (tf === 0) continue;
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += (idf * tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * doc.length) / avgLength));
+    }
+    return score;
+  });
+}
+
+/**
+ * Reciprocal rank fusion: combine several ranked lists of IDs into one
+ * score per ID, `sum(1 / (k + rank))` with ranks starting at 1
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k: number = 60
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, i) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + i + 1));
+    });
+  }
+  return scores;
+}
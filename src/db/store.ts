@@ -0,0 +1,246 @@
+import type {
+  Config,
+  Conversation,
+  ConversationChunkInsert,
+  ConversationInsert,
+  ConversationShare,
+  ConversationUpdate,
+  ConversationVersion,
+  Group,
+  GroupUpsert,
+  ListConversationsOptions,
+  MemberIdentity,
+  Profile,
+  ProfileUpsert,
+  SearchFilters,
+  SearchResult,
+  SnippetSearchOptions,
+  SnippetSearchResult,
+  TagDefinition,
+  TagUsage,
+} from "../types.js";
+import { SupabaseDB } from "./supabase.js";
+import { LocalDB } from "./local.js";
+
+/**
+ * Persistence contract shared by every storage backend
+ */
+export interface KnowledgeStore {
+  /**
+   * Verify the configured credentials and return the member they belong to.
+   * Returns null when the backend trusts the locally configured identity.
+   */
+  authenticate(): Promise<MemberIdentity | null>;
+
+  /**
+   * Versions of the schema migrations applied to the database.
+   * Returns null when the backend has no schema to migrate.
+   */
+  appliedMigrations(): Promise<string[] | null>;
+
+  saveConversation(conversation: ConversationInsert): Promise<string>;
+
+  searchSimilar(
+    embedding: number[],
+    teamId: string,
+    userId: string,
+    limit?: number,
+    includePrivate?: boolean,
+    filters?: SearchFilters
+  ): Promise<SearchResult[]>;
+
+  searchKeyword(
+    query: string,
+    teamId: string,
+    userId: string,
+    limit?: number,
+    includePrivate?: boolean,
+    filters?: SearchFilters
+  ): Promise<SearchResult[]>;
+
+  searchHybrid(
+    query: string,
+    embedding: number[],
+    teamId: string,
+    userId: string,
+    limit?: number,
+    includePrivate?: boolean,
+    filters?: SearchFilters
+  ): Promise<SearchResult[]>;
+
+  /**
+   * Code snippets from conversations the user may see, most similar first
+   */
+  searchSnippets(
+    embedding: number[],
+    teamId: string,
+    userId: string,
+    options?: SnippetSearchOptions
+  ): Promise<SnippetSearchResult[]>;
+
+  getConversation(
+    id: string,
+    teamId: string,
+    userId: string
+  ): Promise<Conversation | null>;
+
+  /**
+   * Chunks of a conversation with their embeddings, in order.
+   * Callers check access with getConversation first.
+   */
+  getConversationChunks(id: string): Promise<ConversationChunkInsert[]>;
+
+  /**
+   * All revisions of a conversation, oldest first, ending with the current one.
+   * Returns null when the conversation doesn't exist or isn't visible to the user.
+   */
+  getConversationHistory(
+    id: string,
+    teamId: string,
+    userId: string
+  ): Promise<ConversationVersion[] | null>;
+
+  /**
+   * Follow-up sessions of a thread root, in thread order
+   */
+  getThreadSessions(
+    rootId: string,
+    teamId: string,
+    userId: string
+  ): Promise<Conversation[]>;
+
+  listConversations(
+    teamId: string,
+    userId: string,
+    options?: ListConversationsOptions
+  ): Promise<Conversation[]>;
+
+  /**
+   * Delete an owned conversation and its thread sessions.
+   * Returns false when nothing was deleted.
+   */
+  deleteConversation(
+    id: string,
+    userId: string,
+    teamId: string
+  ): Promise<boolean>;
+
+  /**
+   * Make an owned conversation and its thread sessions public or private.
+   * Returns false when nothing was updated.
+   */
+  updateVisibility(
+    id: string,
+    userId: string,
+    teamId: string,
+    isPublic: boolean
+  ): Promise<boolean>;
+
+  updateConversation(
+    id: string,
+    userId: string,
+    teamId: string,
+    update: ConversationUpdate
+  ): Promise<boolean>;
+
+  /**
+   * Who an owned conversation is shared with. Returns null when the
+   * conversation doesn't exist or belongs to someone else.
+   */
+  getConversationShares(
+    id: string,
+    userId: string,
+    teamId: string
+  ): Promise<ConversationShare[] | null>;
+
+  shareConversation(
+    id: string,
+    userId: string,
+    teamId: string,
+    shares: ConversationShare[]
+  ): Promise<boolean>;
+
+  unshareConversation(
+    id: string,
+    userId: string,
+    teamId: string,
+    shares: ConversationShare[]
+  ): Promise<boolean>;
+
+  getGroup(name: string, teamId: string): Promise<Group | null>;
+
+  listGroups(teamId: string): Promise<Group[]>;
+
+  /**
+   * Create a group or replace its description and members
+   */
+  saveGroup(group: GroupUpsert): Promise<Group>;
+
+  /**
+   * The team's tag vocabulary, by name
+   */
+  listTags(teamId: string): Promise<TagDefinition[]>;
+
+  /**
+   * How many conversations the user may see carry each tag, most used first
+   */
+  countTags(teamId: string, userId: string): Promise<TagUsage[]>;
+
+  /**
+   * Replace every spelling that normalizes to one of the source tags or to
+   * the target with the target, on every conversation of the team. The
+   * target becomes a vocabulary entry with the sources and the aliases of
+   * any source entries, which are removed. Returns the number of
+   * conversations changed.
+   */
+  mergeTags(
+    teamId: string,
+    userId: string,
+    sources: string[],
+    target: string
+  ): Promise<number>;
+
+  getProfile(userId: string, teamId: string): Promise<Profile | null>;
+
+  /**
+   * Create or replace the profile of a team member
+   */
+  saveProfile(profile: ProfileUpsert): Promise<Profile>;
+}
+
+/**
+ * Create the storage backend selected in the configuration
+ */
+export function createStore(config: Config): KnowledgeStore {
+  switch (config.storageBackend) {
+    case "local":
+      return new LocalDB(config.localStorePath);
+    case "supabase":
+      return new SupabaseDB(config.supabaseUrl!, config.supabaseKey!, config.apiToken);
+  }
+}
+
+/**
+ * With an API token, the team memberships decide who we are: fill in the
+ * user and teams of the configuration from the verified membership
+ */
+export async function verifyIdentity(config: Config, db: KnowledgeStore): Promise<void> {
+  const member = await db.authenticate();
+  if (!member) return;
+
+  const notMember = config.teamIds.filter((team) => !member.teamIds.includes(team));
+  if (notMember.length > 0) {
+    throw new Error(
+      `LYTICS_API_TOKEN is not a member of ${notMember.join(", ")} (member of ${member.teamIds.join(", ")})`
+    );
+  }
+  config.userId = member.userId;
+  // TEAM_IDS narrows the memberships this server uses
+  if (config.teamIds.length === 0) {
+    config.teamIds = member.teamIds;
+  }
+  config.teamId = config.teamId || config.teamIds[0];
+  console.error(
+    `\n🔑 Signed in as ${member.userId} (teams: ${config.teamIds.join(", ")}; default ${config.teamId})\n`
+  );
+}
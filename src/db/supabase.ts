@@ -2,15 +2,41 @@ import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { gzipSync, gunzipSync } from "zlib";
 import type {
   Conversation,
+  ConversationChunkInsert,
   ConversationInsert,
+  ConversationMessage,
+  ConversationShare,
+  ConversationUpdate,
+  ConversationVersion,
+  Group,
+  GroupUpsert,
+  ListConversationsOptions,
+  MemberIdentity,
+  Profile,
+  ProfileUpsert,
+  SearchFilters,
   SearchResult,
+  SnippetInsert,
+  SnippetSearchOptions,
+  SnippetSearchResult,
+  TagDefinition,
+  TagUsage,
 } from "../types.js";
+import type { KnowledgeStore } from "./store.js";
 
-export class SupabaseDB {
+// A conversations row as stored, with content and turns compressed
+type ConversationRow = Omit<Conversation, "messages"> & { messages: string | null };
+
+export class SupabaseDB implements KnowledgeStore {
   private client: SupabaseClient;
 
-  constructor(url: string, serviceKey: string) {
-    this.client = createClient(url, serviceKey);
+  constructor(url: string, key: string, private apiToken?: string) {
+    // Row-level security policies identify the member by this header
+    this.client = createClient(
+      url,
+      key,
+      apiToken ? { global: { headers: { "x-lytics-token": apiToken } } } : undefined
+    );
   }
 
   /**
@@ -35,6 +61,189 @@ export class SupabaseDB {
     }
   }
 
+  /**
+   * Structured turns are stored compressed like the content
+   */
+  private compressMessages(messages: ConversationMessage[] | null | undefined): string | null {
+    return messages ? this.compressContent(JSON.stringify(messages)) : null;
+  }
+
+  private decompressMessages(compressed: string | null): ConversationMessage[] | null {
+    return compressed ? JSON.parse(this.decompressContent(compressed)) : null;
+  }
+
+  /**
+   * Decompress a stored row for the caller
+   */
+  private fromRow(row: ConversationRow): Conversation {
+    return {
+      ...row,
+      content: row.content ? this.decompressContent(row.content) : row.content,
+      messages: this.decompressMessages(row.messages),
+    };
+  }
+
+  /**
+   * Map search filters to the filter arguments shared by the search RPCs
+   */
+  private filterParams(filters: SearchFilters) {
+    return {
+      tags_filter: filters.tags?.length ? filters.tags : null,
+      tags_match: filters.tagsMatch || "any",
+      repo_filter: filters.repoContext || null,
+      author_filter: filters.authorId || null,
+      created_after: filters.createdAfter || null,
+      created_before: filters.createdBefore || null,
+      file_prefix_filter: filters.filePathPrefix || null,
+    };
+  }
+
+  /**
+   * Store the chunk embeddings of a conversation
+   */
+  private async insertChunks(
+    conversationId: string,
+    chunks: ConversationChunkInsert[]
+  ): Promise<void> {
+    const { error } = await this.client.from("conversation_chunks").insert(
+      chunks.map((chunk) => ({
+        conversation_id: conversationId,
+        chunk_index: chunk.chunk_index,
+        content: chunk.content,
+        embedding: chunk.embedding,
+      }))
+    );
+
+    if (error) {
+      throw new Error(`Failed to save conversation chunks: ${error.message}`);
+    }
+  }
+
+  private async insertSnippets(
+    conversationId: string,
+    snippets: SnippetInsert[]
+  ): Promise<void> {
+    const { error } = await this.client.from("snippets").insert(
+      snippets.map((snippet) => ({ conversation_id: conversationId, ...snippet }))
+    );
+
+    if (error) {
+      throw new Error(`Failed to save code snippets: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fill in the author's display name on each conversation
+   */
+  private async attachAuthorNames(
+    conversations: Conversation[],
+    teamId: string
+  ): Promise<void> {
+    const userIds = [...new Set(conversations.map((c) => c.user_id))];
+    if (userIds.length === 0) return;
+
+    const { data, error } = await this.client
+      .from("profiles")
+      .select("user_id, display_name")
+      .eq("team_id", teamId)
+      .in("user_id", userIds);
+
+    if (error) {
+      throw new Error(`Failed to load author profiles: ${error.message}`);
+    }
+
+    const names = new Map((data || []).map((p) => [p.user_id, p.display_name]));
+    conversations.forEach((c) => {
+      c.author_name = names.get(c.user_id) ?? null;
+    });
+  }
+
+  /**
+   * Flatten a group row with its embedded members
+   */
+  private toGroup(row: Omit<Group, "members"> & { group_members: { user_id: string }[] }): Group {
+    const { group_members, ...group } = row;
+    return { ...group, members: group_members.map((m) => m.user_id).sort() };
+  }
+
+  /**
+   * Whether a thread root is shared with the user directly or through a group.
+   * With a member token the database checks the token's member instead.
+   */
+  private async isSharedWith(conversationId: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc("conversation_shared_with", {
+      conversation: conversationId,
+      viewer: userId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to check sharing: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  /**
+   * Check that a conversation exists and belongs to the user
+   */
+  private async isOwner(id: string, userId: string, teamId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from("conversations")
+      .select("id")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .eq("team_id", teamId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get conversation: ${error.message}`);
+    }
+
+    return data !== null;
+  }
+
+  /**
+   * Resolve the member that owns the API token
+   */
+  async authenticate(): Promise<MemberIdentity | null> {
+    if (!this.apiToken) {
+      return null;
+    }
+
+    const { data, error } = await this.client.rpc("current_member");
+
+    if (error) {
+      throw new Error(`Failed to verify LYTICS_API_TOKEN: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new Error("LYTICS_API_TOKEN is invalid or has been revoked");
+    }
+
+    return {
+      userId: data[0].user_id,
+      teamIds: data.map((member: { team_id: string }) => member.team_id),
+    };
+  }
+
+  /**
+   * Read the applied migrations recorded by the migration runner
+   */
+  async appliedMigrations(): Promise<string[] | null> {
+    const { data, error } = await this.client.rpc("applied_migrations");
+
+    if (error) {
+      // PostgREST doesn't know the function: migrations were never tracked
+      if (error.code === "PGRST202") {
+        throw new Error(
+          "The database schema isn't tracked yet. Ask an admin to run `lytics-team-mcp migrate` (with --baseline if the migrations were applied by hand)."
+        );
+      }
+      throw new Error(`Failed to read the schema version: ${error.message}`);
+    }
+
+    return (data || []).map((row: { version: string }) => row.version);
+  }
+
   /**
    * Save a new conversation to the database
    */
@@ -45,16 +254,23 @@ export class SupabaseDB {
     const { data, error } = await this.client
       .from("conversations")
       .insert({
+        // Let the database generate IDs and timestamps unless an export is being restored
+        ...(conversation.id && { id: conversation.id }),
+        ...(conversation.created_at && { created_at: conversation.created_at }),
+        ...(conversation.updated_at && { updated_at: conversation.updated_at }),
         user_id: conversation.user_id,
         team_id: conversation.team_id,
         title: conversation.title,
         summary: conversation.summary || null,
         content: compressedContent,
+        messages: this.compressMessages(conversation.messages),
         embedding: conversation.embedding,
         is_public: conversation.is_public,
         tags: conversation.tags || [],
         repo_context: conversation.repo_context || null,
         file_context: conversation.file_context || [],
+        parent_id: conversation.parent_id || null,
+        thread_position: conversation.thread_position || 0,
       })
       .select("id")
       .single();
@@ -63,18 +279,35 @@ export class SupabaseDB {
       throw new Error(`Failed to save conversation: ${error.message}`);
     }
 
+    if (conversation.chunks?.length || conversation.snippets?.length) {
+      try {
+        if (conversation.chunks?.length) {
+          await this.insertChunks(data.id, conversation.chunks);
+        }
+        if (conversation.snippets?.length) {
+          await this.insertSnippets(data.id, conversation.snippets);
+        }
+      } catch (indexError) {
+        // Don't leave a conversation behind that is only half searchable
+        await this.client.from("conversations").delete().eq("id", data.id);
+        throw indexError;
+      }
+    }
+
     return data.id;
   }
 
   /**
-   * Search for similar conversations using vector similarity
+   * Search for similar conversations using vector similarity.
+   * Matches are made per chunk and aggregated to the best chunk per conversation.
    */
   async searchSimilar(
     embedding: number[],
     teamId: string,
     userId: string,
     limit: number = 5,
-    includePrivate: boolean = false
+    includePrivate: boolean = false,
+    filters: SearchFilters = {}
   ): Promise<SearchResult[]> {
     // Use Supabase RPC function for vector similarity search
     const { data, error } = await this.client.rpc("search_conversations", {
@@ -83,13 +316,97 @@ export class SupabaseDB {
       user_id_filter: userId,
       include_private: includePrivate,
       match_limit: limit,
-      similarity_threshold: 0.7,
+      similarity_threshold: filters.minSimilarity ?? 0.7,
+      ...this.filterParams(filters),
     });
 
     if (error) {
       throw new Error(`Search failed: ${error.message}`);
     }
 
+    return (data || []).map((r: Omit<SearchResult, "score">) => ({
+      ...r,
+      score: r.similarity ?? 0,
+    }));
+  }
+
+  /**
+   * Search for conversations using Postgres full-text search over chunks
+   */
+  async searchKeyword(
+    query: string,
+    teamId: string,
+    userId: string,
+    limit: number = 5,
+    includePrivate: boolean = false,
+    filters: SearchFilters = {}
+  ): Promise<SearchResult[]> {
+    const { data, error } = await this.client.rpc("keyword_search_conversations", {
+      query_text: query,
+      team_id_filter: teamId,
+      user_id_filter: userId,
+      include_private: includePrivate,
+      match_limit: limit,
+      ...this.filterParams(filters),
+    });
+
+    if (error) {
+      throw new Error(`Keyword search failed: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Combine vector and full-text rankings with reciprocal rank fusion
+   */
+  async searchHybrid(
+    query: string,
+    embedding: number[],
+    teamId: string,
+    userId: string,
+    limit: number = 5,
+    includePrivate: boolean = false,
+    filters: SearchFilters = {}
+  ): Promise<SearchResult[]> {
+    const { data, error } = await this.client.rpc("hybrid_search_conversations", {
+      query_text: query,
+      query_embedding: embedding,
+      team_id_filter: teamId,
+      user_id_filter: userId,
+      include_private: includePrivate,
+      match_limit: limit,
+      similarity_threshold: filters.minSimilarity ?? 0.7,
+      ...this.filterParams(filters),
+    });
+
+    if (error) {
+      throw new Error(`Hybrid search failed: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async searchSnippets(
+    embedding: number[],
+    teamId: string,
+    userId: string,
+    options: SnippetSearchOptions = {}
+  ): Promise<SnippetSearchResult[]> {
+    const { data, error } = await this.client.rpc("search_snippets", {
+      query_embedding: embedding,
+      team_id_filter: teamId,
+      user_id_filter: userId,
+      include_private: options.includePrivate ?? false,
+      language_filter: options.language ?? null,
+      match_limit: options.limit ?? 5,
+      similarity_threshold: options.minSimilarity ?? 0.5,
+    });
+
+    if (error) {
+      throw new Error(`Snippet search failed: ${error.message}`);
+    }
+
     return data || [];
   }
 
@@ -113,8 +430,12 @@ export class SupabaseDB {
       throw new Error(`Failed to get conversation: ${error.message}`);
     }
 
-    // Check access - must be public or owned by user
-    if (!data.is_public && data.user_id !== userId) {
+    // Check access - must be public, owned by user or shared with them
+    if (
+      !data.is_public &&
+      data.user_id !== userId &&
+      !(await this.isSharedWith(data.parent_id || data.id, userId))
+    ) {
       return null;
     }
 
@@ -122,27 +443,128 @@ export class SupabaseDB {
     if (data.content) {
       data.content = this.decompressContent(data.content);
     }
+    data.messages = this.decompressMessages(data.messages);
 
+    await this.attachAuthorNames([data], teamId);
     return data;
   }
 
+  /**
+   * Get the chunks and their embeddings of a conversation, in order
+   */
+  async getConversationChunks(id: string): Promise<ConversationChunkInsert[]> {
+    const { data, error } = await this.client
+      .from("conversation_chunks")
+      .select("chunk_index, content, embedding")
+      .eq("conversation_id", id)
+      .order("chunk_index", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get conversation chunks: ${error.message}`);
+    }
+
+    // pgvector columns come back as their text form, e.g. "[0.1,0.2]"
+    return (data || []).map((chunk) => ({
+      chunk_index: chunk.chunk_index,
+      content: chunk.content,
+      embedding:
+        typeof chunk.embedding === "string" ? JSON.parse(chunk.embedding) : chunk.embedding,
+    }));
+  }
+
+  /**
+   * Get every revision of a conversation, oldest first.
+   * Previous revisions come from conversation_versions (filled by a trigger),
+   * the live row is appended as the current version.
+   */
+  async getConversationHistory(
+    id: string,
+    teamId: string,
+    userId: string
+  ): Promise<ConversationVersion[] | null> {
+    // Reuse the access check of getConversation
+    const current = await this.getConversation(id, teamId, userId);
+    if (!current) return null;
+
+    const { data, error } = await this.client
+      .from("conversation_versions")
+      .select("*")
+      .eq("conversation_id", id)
+      .order("version", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get conversation history: ${error.message}`);
+    }
+
+    const versions: ConversationVersion[] = (data || []).map((v) => ({
+      conversation_id: v.conversation_id,
+      version: v.version,
+      title: v.title,
+      summary: v.summary,
+      content: this.decompressContent(v.content),
+      is_public: v.is_public,
+      tags: v.tags || [],
+      repo_context: v.repo_context,
+      file_context: v.file_context || [],
+      created_at: v.created_at,
+      is_current: false,
+    }));
+
+    versions.push({
+      conversation_id: current.id,
+      version: versions.length > 0 ? versions[versions.length - 1].version + 1 : 1,
+      title: current.title,
+      summary: current.summary,
+      content: current.content,
+      is_public: current.is_public,
+      tags: current.tags,
+      repo_context: current.repo_context,
+      file_context: current.file_context,
+      created_at: current.updated_at,
+      is_current: true,
+    });
+
+    return versions;
+  }
+
+  /**
+   * Get the follow-up sessions of a thread
+   */
+  async getThreadSessions(
+    rootId: string,
+    teamId: string,
+    userId: string
+  ): Promise<Conversation[]> {
+    // Sharing a thread shares all of its sessions
+    const { data, error } = await this.client
+      .rpc("visible_conversations", { team_id_filter: teamId, viewer: userId })
+      .select("*")
+      .eq("parent_id", rootId)
+      .order("thread_position", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get conversation thread: ${error.message}`);
+    }
+
+    const sessions = ((data || []) as ConversationRow[]).map((row) => this.fromRow(row));
+    await this.attachAuthorNames(sessions, teamId);
+    return sessions;
+  }
+
   /**
    * List conversations for a user
    */
   async listConversations(
     teamId: string,
     userId: string,
-    options: {
-      onlyMine?: boolean;
-      tags?: string[];
-      limit?: number;
-      offset?: number;
-    } = {}
+    options: ListConversationsOptions = {}
   ): Promise<Conversation[]> {
+    // Show public conversations, user's own private ones and those shared with them
     let query = this.client
-      .from("conversations")
+      .rpc("visible_conversations", { team_id_filter: teamId, viewer: userId })
       .select("*")
-      .eq("team_id", teamId)
+      // Follow-up sessions are listed with their thread, not on their own
+      .is("parent_id", null)
       .order("created_at", { ascending: false })
       .limit(options.limit || 20);
 
@@ -155,9 +577,6 @@ export class SupabaseDB {
 
     if (options.onlyMine) {
       query = query.eq("user_id", userId);
-    } else {
-      // Show public conversations OR user's own private ones
-      query = query.or(`is_public.eq.true,user_id.eq.${userId}`);
     }
 
     if (options.tags && options.tags.length > 0) {
@@ -170,16 +589,9 @@ export class SupabaseDB {
       throw new Error(`Failed to list conversations: ${error.message}`);
     }
 
-    // Decompress content for each conversation
-    if (data) {
-      data.forEach((conv) => {
-        if (conv.content) {
-          conv.content = this.decompressContent(conv.content);
-        }
-      });
-    }
-
-    return data || [];
+    const conversations = ((data || []) as ConversationRow[]).map((row) => this.fromRow(row));
+    await this.attachAuthorNames(conversations, teamId);
+    return conversations;
   }
 
   /**
@@ -190,22 +602,23 @@ export class SupabaseDB {
     userId: string,
     teamId: string
   ): Promise<boolean> {
-    const { error } = await this.client
+    const { data, error } = await this.client
       .from("conversations")
       .delete()
       .eq("id", id)
       .eq("user_id", userId)
-      .eq("team_id", teamId);
+      .eq("team_id", teamId)
+      .select("id");
 
     if (error) {
       throw new Error(`Failed to delete conversation: ${error.message}`);
     }
 
-    return true;
+    return data.length > 0;
   }
 
   /**
-   * Update conversation visibility
+   * Update conversation visibility (applies to the whole thread)
    */
   async updateVisibility(
     id: string,
@@ -213,17 +626,339 @@ export class SupabaseDB {
     teamId: string,
     isPublic: boolean
   ): Promise<boolean> {
-    const { error } = await this.client
+    const update = { is_public: isPublic, updated_at: new Date().toISOString() };
+
+    // The root and its sessions; two filters rather than an or() string,
+    // which would splice the id into the filter syntax
+    let updated = 0;
+    for (const column of ["id", "parent_id"]) {
+      const { data, error } = await this.client
+        .from("conversations")
+        .update(update)
+        .eq(column, id)
+        .eq("user_id", userId)
+        .eq("team_id", teamId)
+        .select("id");
+
+      if (error) {
+        throw new Error(`Failed to update visibility: ${error.message}`);
+      }
+      updated += data.length;
+    }
+
+    return updated > 0;
+  }
+
+  /**
+   * Update a conversation's fields (only owner can update)
+   */
+  async updateConversation(
+    id: string,
+    userId: string,
+    teamId: string,
+    update: ConversationUpdate
+  ): Promise<boolean> {
+    const { chunks, snippets, ...fields } = update;
+    const row: Record<string, unknown> = {
+      ...fields,
+      updated_at: new Date().toISOString(),
+    };
+    if (fields.content !== undefined) {
+      row.content = this.compressContent(fields.content);
+    }
+    if (fields.messages !== undefined) {
+      row.messages = this.compressMessages(fields.messages);
+    }
+
+    const { data, error } = await this.client
       .from("conversations")
-      .update({ is_public: isPublic, updated_at: new Date().toISOString() })
+      .update(row)
       .eq("id", id)
       .eq("user_id", userId)
-      .eq("team_id", teamId);
+      .eq("team_id", teamId)
+      .select("id");
 
     if (error) {
-      throw new Error(`Failed to update visibility: ${error.message}`);
+      throw new Error(`Failed to update conversation: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      return false;
+    }
+
+    if (chunks) {
+      const { error: deleteError } = await this.client
+        .from("conversation_chunks")
+        .delete()
+        .eq("conversation_id", id);
+
+      if (deleteError) {
+        throw new Error(`Failed to replace conversation chunks: ${deleteError.message}`);
+      }
+      if (chunks.length > 0) {
+        await this.insertChunks(id, chunks);
+      }
+    }
+
+    if (snippets) {
+      const { error: deleteError } = await this.client
+        .from("snippets")
+        .delete()
+        .eq("conversation_id", id);
+
+      if (deleteError) {
+        throw new Error(`Failed to replace code snippets: ${deleteError.message}`);
+      }
+      if (snippets.length > 0) {
+        await this.insertSnippets(id, snippets);
+      }
     }
 
     return true;
   }
+
+  /**
+   * Get a team member's profile
+   */
+  async getProfile(userId: string, teamId: string): Promise<Profile | null> {
+    const { data, error } = await this.client
+      .from("profiles")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("team_id", teamId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get profile: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Create or replace a team member's profile
+   */
+  async saveProfile(profile: ProfileUpsert): Promise<Profile> {
+    const { data, error } = await this.client
+      .from("profiles")
+      .upsert(profile, { onConflict: "team_id,user_id" })
+      .select("*")
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save profile: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * List who an owned conversation is shared with
+   */
+  async getConversationShares(
+    id: string,
+    userId: string,
+    teamId: string
+  ): Promise<ConversationShare[] | null> {
+    if (!(await this.isOwner(id, userId, teamId))) {
+      return null;
+    }
+
+    const { data, error } = await this.client
+      .from("conversation_shares")
+      .select("principal_type, principal")
+      .eq("conversation_id", id)
+      .order("principal_type", { ascending: true })
+      .order("principal", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get conversation shares: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Share a conversation with users or groups (only owner can share)
+   */
+  async shareConversation(
+    id: string,
+    userId: string,
+    teamId: string,
+    shares: ConversationShare[]
+  ): Promise<boolean> {
+    if (!(await this.isOwner(id, userId, teamId))) {
+      return false;
+    }
+
+    const { error } = await this.client.from("conversation_shares").upsert(
+      shares.map((share) => ({ conversation_id: id, ...share })),
+      { onConflict: "conversation_id,principal_type,principal", ignoreDuplicates: true }
+    );
+
+    if (error) {
+      throw new Error(`Failed to share conversation: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Stop sharing a conversation with users or groups (only owner can unshare)
+   */
+  async unshareConversation(
+    id: string,
+    userId: string,
+    teamId: string,
+    shares: ConversationShare[]
+  ): Promise<boolean> {
+    if (!(await this.isOwner(id, userId, teamId))) {
+      return false;
+    }
+
+    for (const type of ["user", "group"] as const) {
+      const principals = shares
+        .filter((s) => s.principal_type === type)
+        .map((s) => s.principal);
+      if (principals.length === 0) continue;
+
+      const { error } = await this.client
+        .from("conversation_shares")
+        .delete()
+        .eq("conversation_id", id)
+        .eq("principal_type", type)
+        .in("principal", principals);
+
+      if (error) {
+        throw new Error(`Failed to unshare conversation: ${error.message}`);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Get a group with its members
+   */
+  async getGroup(name: string, teamId: string): Promise<Group | null> {
+    const { data, error } = await this.client
+      .from("groups")
+      .select("*, group_members(user_id)")
+      .eq("team_id", teamId)
+      .eq("name", name)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get group: ${error.message}`);
+    }
+
+    return data ? this.toGroup(data) : null;
+  }
+
+  async listGroups(teamId: string): Promise<Group[]> {
+    const { data, error } = await this.client
+      .from("groups")
+      .select("*, group_members(user_id)")
+      .eq("team_id", teamId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list groups: ${error.message}`);
+    }
+
+    return (data || []).map((row) => this.toGroup(row));
+  }
+
+  /**
+   * Create a group or replace its description and members
+   */
+  async saveGroup(group: GroupUpsert): Promise<Group> {
+    const { members, ...row } = group;
+
+    const { error } = await this.client
+      .from("groups")
+      .upsert(row, { onConflict: "team_id,name" });
+
+    if (error) {
+      throw new Error(`Failed to save group: ${error.message}`);
+    }
+
+    const { error: deleteError } = await this.client
+      .from("group_members")
+      .delete()
+      .eq("team_id", group.team_id)
+      .eq("group_name", group.name);
+
+    if (deleteError) {
+      throw new Error(`Failed to replace group members: ${deleteError.message}`);
+    }
+
+    if (members.length > 0) {
+      const { error: insertError } = await this.client.from("group_members").insert(
+        members.map((userId) => ({
+          team_id: group.team_id,
+          group_name: group.name,
+          user_id: userId,
+        }))
+      );
+
+      if (insertError) {
+        throw new Error(`Failed to replace group members: ${insertError.message}`);
+      }
+    }
+
+    return (await this.getGroup(group.name, group.team_id))!;
+  }
+
+  async listTags(teamId: string): Promise<TagDefinition[]> {
+    const { data, error } = await this.client
+      .from("tags")
+      .select("*")
+      .eq("team_id", teamId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list tags: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async countTags(teamId: string, userId: string): Promise<TagUsage[]> {
+    const { data, error } = await this.client.rpc("tag_usage", {
+      team_id_filter: teamId,
+      user_id_filter: userId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to count tags: ${error.message}`);
+    }
+
+    return (data || []).map((row: { tag: string; count: number }) => ({
+      tag: row.tag,
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * Goes through merge_team_tags, which can change other members' entries
+   */
+  async mergeTags(
+    teamId: string,
+    userId: string,
+    sources: string[],
+    target: string
+  ): Promise<number> {
+    const { data, error } = await this.client.rpc("merge_team_tags", {
+      team_id_filter: teamId,
+      member_id: userId,
+      source_tags: sources,
+      target_tag: target,
+    });
+
+    if (error) {
+      throw new Error(`Failed to merge tags: ${error.message}`);
+    }
+
+    return data as number;
+  }
 }
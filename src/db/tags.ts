@@ -0,0 +1,15 @@
+/**
+ * The canonical spelling of a tag: lowercase, words joined by hyphens,
+ * e.g. "Rate Limiting" becomes "rate-limiting". Keeps the punctuation of
+ * names like "c++", "c#" and "node.js". normalize_tag() in the database
+ * does the same, so both backends fold the same spellings together.
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^\p{L}\p{N}.+#/-]/gu, "")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,115 @@
+export interface Chunk {
+  index: number;
+  content: string;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+}
+
+// Leaves room for the title prefix within the embedding input limit (2000 chars)
+const DEFAULT_MAX_CHARS = 1500;
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^#{1,6}\s/;
+// Turn markers used by Cursor exports (`**User**`, `**Cursor**`) and
+// common transcript styles (`## Assistant`, `User:`)
+const TURN = /^\s*(_?\*\*(user|cursor|assistant)\*\*_?\s*$|(user|assistant|cursor):\s)/i;
+const RULE = /^\s*---+\s*$/;
+
+/**
+ * Split content into sections at headings, turn markers and horizontal
+ * rules. Code fences are never split.
+ */
+function splitSections(content: string): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  for (const line of content.split("\n")) {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && (HEADING.test(line) || TURN.test(line) || RULE.test(line))) {
+      if (current.join("").trim()) sections.push(current.join("\n"));
+      current = [];
+      // Horizontal rules are separators only
+      if (RULE.test(line)) continue;
+    }
+    current.push(line);
+  }
+  if (current.join("").trim()) sections.push(current.join("\n"));
+
+  return sections;
+}
+
+/**
+ * Break an oversized section into pieces, preferring paragraph breaks
+ * outside code fences and falling back to line breaks
+ */
+function splitOversized(section: string, maxChars: number): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  for (const line of section.split("\n")) {
+    if (FENCE.test(line)) inFence = !inFence;
+    current.push(line);
+    if (!inFence && line.trim() === "") {
+      blocks.push(current.join("\n"));
+      current = [];
+    }
+  }
+  if (current.length > 0) blocks.push(current.join("\n"));
+
+  const pieces: string[] = [];
+  for (const block of blocks) {
+    if (block.length <= maxChars) {
+      pieces.push(block);
+      continue;
+    }
+    // A single paragraph or code block that is still too long - cut on lines
+    let piece = "";
+    for (const line of block.split("\n")) {
+      if (piece && piece.length + line.length + 1 > maxChars) {
+        pieces.push(piece);
+        piece = "";
+      }
+      // Last resort for a single huge line
+      let rest = line;
+      while (rest.length > maxChars) {
+        pieces.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+      piece = piece ? `${piece}\n${rest}` : rest;
+    }
+    if (piece) pieces.push(piece);
+  }
+
+  return pieces;
+}
+
+/**
+ * Split a conversation into chunks for embedding.
+ * Chunks follow markdown headings, conversation turns and code fences,
+ * and adjacent small sections are packed together up to `maxChars`.
+ */
+export function chunkContent(content: string, options: ChunkOptions = {}): Chunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+
+  const pieces = splitSections(content).flatMap((section) =>
+    section.length > maxChars ? splitOversized(section, maxChars) : [section]
+  );
+
+  const chunks: Chunk[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      if (current.trim()) chunks.push({ index: chunks.length, content: current.trim() });
+      current = "";
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  }
+  if (current.trim()) chunks.push({ index: chunks.length, content: current.trim() });
+
+  return chunks;
+}
@@ -0,0 +1,39 @@
+import type { EmbeddingProvider } from "./provider.js";
+
+/**
+ * FNV-1a 32-bit hash of a string
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic feature-hashing embedder for tests and offline development.
+ * Tokens are hashed into a fixed number of buckets with a signed count,
+ * then L2-normalised. No network, no model - texts that share words
+ * end up close together, which is all tests need.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "hashing";
+
+  constructor(readonly dimensions: number) {}
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9_]+/g) || [];
+
+    for (const token of tokens) {
+      const hash = fnv1a(token);
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
@@ -1,11 +1,12 @@
 import { HfInference } from "@huggingface/inference";
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from "./provider.js";
 
-export class EmbeddingService {
+export class HuggingFaceEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "huggingface";
+  readonly dimensions = EMBEDDING_DIMENSIONS;
   private client: HfInference;
   // Using BGE model - works with feature extraction API, produces 384-dim embeddings
   private embeddingModel = "BAAI/bge-small-en-v1.5";
-  // Using BART for summarization - free tier available
-  private summaryModel = "facebook/bart-large-cnn";
 
   constructor(apiKey: string) {
     this.client = new HfInference(apiKey);
@@ -47,29 +48,4 @@ export class EmbeddingService {
 
     throw new Error("Unexpected embedding format from API");
   }
-
-  /**
-   * Generate a summary of the conversation for better searchability
-   */
-  async generateSummary(content: string): Promise<string> {
-    try {
-      // Truncate content for summarization
-      const truncatedContent = content.slice(0, 3000);
-
-      const result = await this.client.summarization({
-        model: this.summaryModel,
-        inputs: truncatedContent,
-        parameters: {
-          max_length: 150,
-          min_length: 30,
-        },
-      });
-
-      return result.summary_text;
-    } catch (error) {
-      // If summarization fails (rate limit, etc), create a simple excerpt
-      console.error("Summary generation failed, using excerpt:", error);
-      return content.slice(0, 200) + "...";
-    }
-  }
 }
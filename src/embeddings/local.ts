@@ -0,0 +1,59 @@
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from "./provider.js";
+
+/**
+ * In-process embeddings via transformers.js (ONNX runtime).
+ * The model is downloaded once into the transformers.js cache and then
+ * runs fully offline. `@huggingface/transformers` is an optional peer
+ * dependency, so it is only loaded when this provider is selected.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly dimensions = EMBEDDING_DIMENSIONS;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  // ONNX export of the same BGE model the Hugging Face provider uses,
+  // so vectors from both providers are comparable
+  constructor(private model: string = "Xenova/bge-small-en-v1.5") {}
+
+  /**
+   * Lazily load the feature extraction pipeline
+   */
+  private loadExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = import("@huggingface/transformers")
+        .catch(() => {
+          throw new Error(
+            'EMBEDDING_PROVIDER=local requires the "@huggingface/transformers" package. Install it with: npm install @huggingface/transformers'
+          );
+        })
+        .then(
+          ({ pipeline }) =>
+            pipeline("feature-extraction", this.model) as Promise<FeatureExtractionPipeline>
+        );
+    }
+    return this.extractor;
+  }
+
+  /**
+   * Generate embedding for a text string
+   * Returns 384-dimensional vector
+   */
+  async generateEmbedding(text: string): Promise<number[]> {
+    const extractor = await this.loadExtractor();
+
+    // Truncate if too long (model has ~512 token limit)
+    const output = await extractor(text.slice(0, 2000), {
+      pooling: "cls",
+      normalize: true,
+    });
+
+    const embedding = Array.from(output.data as Float32Array);
+    if (embedding.length !== this.dimensions) {
+      throw new Error(
+        `Local model ${this.model} produced ${embedding.length}-dim embeddings, expected ${this.dimensions}`
+      );
+    }
+    return embedding;
+  }
+}
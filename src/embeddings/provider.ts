@@ -0,0 +1,36 @@
+import type { Config } from "../types.js";
+import { HuggingFaceEmbeddingProvider } from "./huggingface.js";
+import { LocalEmbeddingProvider } from "./local.js";
+import { HashingEmbeddingProvider } from "./hashing.js";
+
+/**
+ * Dimension of the `embedding vector(384)` column - every provider must match it
+ */
+export const EMBEDDING_DIMENSIONS = 384;
+
+/**
+ * Turns text into vectors for storage and search
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+
+  /**
+   * Generate embedding for a text string
+   */
+  generateEmbedding(text: string): Promise<number[]>;
+}
+
+/**
+ * Create the embedding provider selected in the configuration
+ */
+export function createEmbeddingProvider(config: Config): EmbeddingProvider {
+  switch (config.embeddingProvider) {
+    case "huggingface":
+      return new HuggingFaceEmbeddingProvider(config.huggingfaceApiKey!);
+    case "local":
+      return new LocalEmbeddingProvider(config.localEmbeddingModel);
+    case "hashing":
+      return new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+  }
+}
@@ -0,0 +1,190 @@
+import { createServer as createHttpServer } from "http";
+import type { IncomingMessage, ServerResponse } from "http";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import { createStore, verifyIdentity } from "./db/store.js";
+import { createServer } from "./server.js";
+import type { ServerContext } from "./server.js";
+import type { Config } from "./types.js";
+
+// Sessions without a request for this long are closed
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+// Saved conversations can be long, but not this long
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  // The API token the session was opened with; only its hash is kept
+  tokenHash: Buffer;
+  lastSeen: number;
+}
+
+function hashToken(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+function bearerToken(req: IncomingMessage): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || "");
+  return match ? match[1] : null;
+}
+
+/**
+ * Reply with a JSON-RPC error, the shape MCP clients expect from the transport
+ */
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res
+    .writeHead(status, { "Content-Type": "application/json" })
+    .end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new Error("Request body is not valid JSON");
+  }
+}
+
+/**
+ * Sign a caller in with their team API token. They get their own
+ * configuration and store, so row-level security and every tool see them
+ * exactly as they would see a member running the server locally.
+ */
+async function signIn(config: Config, token: string): Promise<Pick<ServerContext, "config" | "db">> {
+  const member: Config = { ...config, apiToken: token, teamIds: [...config.teamIds] };
+  const db = createStore(member);
+  await verifyIdentity(member, db);
+  return { config: member, db };
+}
+
+/**
+ * Serve MCP over streamable HTTP for the whole team. Each caller sends their
+ * LYTICS_API_TOKEN as a bearer token; the initialize request signs them in
+ * and opens a session, and every later request must carry the same token.
+ * Secrets such as the Supabase and Hugging Face keys stay on the server.
+ */
+export async function startHttpServer(
+  config: Config,
+  services: Pick<ServerContext, "embeddings" | "redactor" | "summarizer">
+): Promise<void> {
+  const sessions = new Map<string, Session>();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    // Unauthenticated, so it says nothing about who is connected
+    if (pathname === "/health") {
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ status: "ok" }));
+      return;
+    }
+    if (pathname !== "/mcp") {
+      sendError(res, 404, "Not found: the MCP endpoint is /mcp");
+      return;
+    }
+
+    const token = bearerToken(req);
+    if (!token) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="lytics-mcp"');
+      sendError(res, 401, "Send your LYTICS_API_TOKEN in an 'Authorization: Bearer <token>' header");
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJson(req);
+      } catch (error) {
+        sendError(res, 400, (error as Error).message);
+        return;
+      }
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendError(res, 404, "Session not found or expired; start a new one");
+        return;
+      }
+      if (!timingSafeEqual(session.tokenHash, hashToken(token))) {
+        sendError(res, 403, "This session was opened with a different API token");
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendError(res, 400, "No session: send an initialize request first");
+      return;
+    }
+
+    let member: Pick<ServerContext, "config" | "db">;
+    try {
+      member = await signIn(config, token);
+    } catch (error) {
+      sendError(res, 401, (error as Error).message);
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, tokenHash: hashToken(token), lastSeen: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    // No workspace: the server can't see the caller's files
+    const server = createServer({ ...member, ...services });
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        sendError(res, 500, "Internal server error");
+      }
+    });
+  });
+
+  // Clients that go away without closing their session leave it idle
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const session of sessions.values()) {
+      if (session.lastSeen < cutoff) {
+        session.transport.close().catch((error) => {
+          console.error("Failed to close idle session:", error);
+        });
+      }
+    }
+  }, 60 * 1000);
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.httpPort, config.httpHost, resolve);
+  });
+  console.error(
+    `Lytics MCP server listening on http://${config.httpHost}:${config.httpPort}/mcp`
+  );
+}
@@ -0,0 +1,248 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import type { KnowledgeStore } from "./db/store.js";
+import type { EmbeddingProvider } from "./embeddings/provider.js";
+import type { Config, SearchResult } from "./types.js";
+import {
+  SearchConversationsSchema,
+  searchConversations,
+  excerptPassage,
+} from "./tools/search.js";
+import { GetConversationSchema, getConversation } from "./tools/retrieve.js";
+import { formatAuthor } from "./tools/profile.js";
+import { conversationUri, renderThread } from "./resources.js";
+
+// How many related conversations a prompt pre-fills
+const RELATED_LIMIT = 5;
+// Most conversations a post-mortem pulls in by ID
+const MAX_POSTMORTEM_SOURCES = 10;
+
+/**
+ * Split a comma-separated prompt argument (prompt arguments are always strings)
+ */
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function userMessage(text: string) {
+  return {
+    messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+  };
+}
+
+/**
+ * Markdown list of search results for a prompt to build on
+ */
+function formatRelated(results: SearchResult[]): string {
+  if (results.length === 0) {
+    return "_No related conversations found in the team knowledge base._";
+  }
+  return results
+    .map((r) => {
+      const lines = [
+        `- **${r.title}** (id: ${r.id}, ${conversationUri(r.id)})`,
+        `  by ${formatAuthor(r)}, ${r.created_at}` +
+          (r.tags.length > 0 ? ` - tags: ${r.tags.join(", ")}` : ""),
+      ];
+      if (r.summary) lines.push(`  Summary: ${r.summary}`);
+      const passage = excerptPassage(r.matched_passage, 300);
+      if (passage) lines.push(`  > ${passage.replace(/\s*\n\s*/g, " ")}`);
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Register prompts for the common knowledge-base workflows. Each one runs a
+ * search in the default team and includes what it found, so the model starts
+ * from the team's existing knowledge.
+ */
+export function registerPrompts(
+  server: McpServer,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
+  config: Config
+): void {
+  const related = (query: string, repoContext?: string) =>
+    searchConversations(
+      SearchConversationsSchema.parse({
+        query,
+        limit: RELATED_LIMIT,
+        include_private: true,
+        repo_context: repoContext,
+      }),
+      db,
+      embeddings,
+      config.teamId,
+      config.userId
+    );
+
+  server.registerPrompt(
+    "save_session",
+    {
+      title: "Save this session",
+      description:
+        "Summarise the current chat and save it as a knowledge entry, continuing an existing conversation if one covers the same problem",
+      argsSchema: {
+        topic: z.string().describe("What the session was about, in a few words"),
+        tags: z.string().optional().describe("Comma-separated tags to add"),
+        repo: z.string().optional().describe("Repository or project the session was about"),
+      },
+    },
+    async ({ topic, tags, repo }) => {
+      const results = await related(topic, repo);
+      const tagList = splitList(tags);
+
+      return userMessage(
+        [
+          `Save this chat session about "${topic}" to the team knowledge base.`,
+          "",
+          "1. Pick a specific, searchable title that names the problem and the outcome.",
+          "2. Call save_conversation with the COMPLETE conversation as content: every message and every code block, not a summary.",
+          `3. Tags: ${
+            tagList.length > 0
+              ? `${tagList.join(", ")}, plus any others that fit`
+              : "choose 2-5 short tags (technology, area, kind of problem)"
+          }. Prefer tags the team already uses (list_tags), and offer the user any suggested_tags from the response.`,
+          repo
+            ? `4. Set repo_context to "${repo}" and list the files discussed in file_context.`
+            : "4. Set repo_context and file_context if the session was about a specific repository.",
+          "5. If one of the conversations below is about the same problem, pass its id as parent_id so this session continues that thread instead of duplicating it.",
+          "",
+          "Related conversations already saved:",
+          "",
+          formatRelated(results),
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "check_knowledge",
+    {
+      title: "Check team knowledge first",
+      description: "Find what the team already knows about a task before starting on it",
+      argsSchema: {
+        task: z.string().describe("What you are about to work on"),
+        repo: z.string().optional().describe("Limit to conversations about this repository"),
+      },
+    },
+    async ({ task, repo }) => {
+      const results = await related(task, repo);
+
+      return userMessage(
+        [
+          `I'm about to start on: ${task}`,
+          "",
+          "Before we begin, review what the team has already worked out. These saved conversations came up in a search:",
+          "",
+          formatRelated(results),
+          "",
+          results.length > 0
+            ? "Open the ones that look relevant with get_conversation, then tell me what applies here: earlier decisions, known pitfalls, code we can reuse, and who worked on it. Point out anything that looks outdated. If none of it applies, say so."
+            : "Nothing related is saved yet. Try search_knowledge with other wording in case the topic was discussed under a different name, and if there's still nothing, remind me to save this session when we're done.",
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "write_postmortem",
+    {
+      title: "Write a post-mortem",
+      description:
+        "Draft an incident post-mortem from the conversations where it was investigated and fixed",
+      argsSchema: {
+        incident: z.string().describe("Short description of the incident"),
+        conversation_ids: z
+          .string()
+          .optional()
+          .describe("Comma-separated IDs of conversations about the incident (found by search if omitted)"),
+      },
+    },
+    async ({ incident, conversation_ids }) => {
+      const ids = splitList(conversation_ids).slice(0, MAX_POSTMORTEM_SOURCES);
+
+      const sources: string[] = [];
+      const missing: string[] = [];
+      for (const id of ids) {
+        const input = GetConversationSchema.safeParse({ id });
+        const thread = input.success
+          ? await getConversation(input.data, db, config.teamId, config.userId)
+          : null;
+        if (thread) {
+          sources.push(renderThread(thread));
+        } else {
+          missing.push(id);
+        }
+      }
+      const results = ids.length === 0 ? await related(incident) : [];
+
+      return userMessage(
+        [
+          `Write a blameless post-mortem for this incident: ${incident}`,
+          "",
+          "Use these sections: Summary, Impact, Timeline, Root cause, Resolution, What went well, What went wrong, Action items (with owners where the conversations name them).",
+          "Base it on the conversations below. Quote the commands, errors and code changes that mattered, and mark anything you had to infer as an assumption.",
+          "",
+          ...(ids.length > 0
+            ? [
+                "Conversations about the incident:",
+                "",
+                sources.join("\n\n---\n\n") || "_None of the given conversations could be found._",
+                ...(missing.length > 0
+                  ? ["", `Not found or not accessible: ${missing.join(", ")}`]
+                  : []),
+              ]
+            : [
+                "Conversations that came up in a search for the incident:",
+                "",
+                formatRelated(results),
+                "",
+                "Open the ones that are about this incident with get_conversation before writing.",
+              ]),
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "onboard_repo",
+    {
+      title: "Onboard me to a repository",
+      description:
+        "Build an onboarding guide for a repository from the team's saved conversations about it",
+      argsSchema: {
+        repo: z.string().describe("Repository or project to get onboarded to"),
+        focus: z.string().optional().describe("Area to focus on, e.g. 'auth' or 'deployment'"),
+      },
+    },
+    async ({ repo, focus }) => {
+      const query = focus
+        ? `${repo} ${focus}`
+        : `${repo} architecture setup conventions gotchas`;
+      const results = await related(query, repo);
+
+      return userMessage(
+        [
+          `Onboard me to ${repo}${focus ? `, focusing on ${focus}` : ""}.`,
+          "",
+          "Using the team's saved conversations about it, explain:",
+          "- how the codebase is laid out and the main moving parts",
+          "- how to set it up, run it and test it",
+          "- conventions and decisions the team has settled on, and why",
+          "- known pitfalls and recurring problems, with how they were solved",
+          "- who has worked on which areas, so I know who to ask",
+          "",
+          "Read the conversations below with get_conversation and search_knowledge for anything they leave out. Cite each point with the conversation it came from, and say where the saved knowledge has gaps.",
+          "",
+          formatRelated(results),
+        ].join("\n")
+      );
+    }
+  );
+}
@@ -0,0 +1,165 @@
+import { readFileSync, existsSync } from "fs";
+import type { Config, RedactionMode } from "../types.js";
+
+export interface RedactionRule {
+  category: string;
+  pattern: RegExp;
+  // Only this capture group is masked (e.g. the value of `password=...`)
+  valueGroup?: number;
+}
+
+export interface RedactionReport {
+  mode: RedactionMode;
+  // Number of matches per category
+  categories: Record<string, number>;
+}
+
+/**
+ * Team rules file format (REDACTION_RULES_FILE)
+ */
+interface RedactionRulesFile {
+  rules?: { category: string; pattern: string; flags?: string; value_group?: number }[];
+  // Built-in categories to turn off
+  disable?: string[];
+}
+
+/**
+ * Built-in detectors for secrets and personal data
+ */
+export const BUILTIN_RULES: RedactionRule[] = [
+  {
+    category: "private_key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    category: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g,
+  },
+  {
+    category: "aws_access_key",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    category: "api_key",
+    pattern:
+      /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}|(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,}|xox[abposr]-[A-Za-z0-9-]{10,}|hf_[A-Za-z0-9]{30,}|AIza[0-9A-Za-z_-]{35}|glpat-[A-Za-z0-9_-]{20,})/g,
+  },
+  {
+    category: "connection_string",
+    pattern:
+      /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|redis|rediss|amqps?|mssql|sqlserver):\/\/[^\s:/@'"`]+:[^\s@'"`]+@[^\s'"`]+/g,
+  },
+  {
+    category: "password",
+    pattern:
+      /\b(?:password|passwd|pwd|secret|client_secret|api[_-]?key|access[_-]?token|auth[_-]?token)\b["']?\s*[:=]\s*["']?([^\s"'`,;]{8,})/gi,
+    valueGroup: 1,
+  },
+  {
+    category: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+];
+
+/**
+ * Finds secrets and personal data in text before it is embedded,
+ * summarized or stored, and masks, blocks or reports them per the mode
+ */
+export class Redactor {
+  constructor(
+    readonly mode: RedactionMode,
+    private rules: RedactionRule[] = BUILTIN_RULES
+  ) {}
+
+  /**
+   * Mask every match in a text and count matches per category
+   */
+  private scan(text: string, findings: Record<string, number>): string {
+    let result = text;
+    for (const rule of this.rules) {
+      result = result.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+        findings[rule.category] = (findings[rule.category] || 0) + 1;
+        const placeholder = `[REDACTED:${rule.category}]`;
+        const value = rule.valueGroup ? groups[rule.valueGroup - 1] : undefined;
+        return typeof value === "string"
+          ? match.slice(0, match.lastIndexOf(value)) + placeholder
+          : placeholder;
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Redact a set of text fields together; list fields are redacted per item.
+   * Throws in block mode; leaves the text untouched in warn mode.
+   */
+  apply<T extends Record<string, string | string[] | null | undefined>>(
+    fields: T
+  ): { fields: T; report: RedactionReport | null } {
+    if (this.mode === "off") {
+      return { fields, report: null };
+    }
+
+    const findings: Record<string, number> = {};
+    const masked = { ...fields };
+    for (const [key, value] of Object.entries(fields)) {
+      if (typeof value === "string") {
+        (masked as Record<string, string>)[key] = this.scan(value, findings);
+      } else if (Array.isArray(value)) {
+        (masked as Record<string, string[]>)[key] = value.map((item) =>
+          this.scan(item, findings)
+        );
+      }
+    }
+
+    if (Object.keys(findings).length === 0) {
+      return { fields, report: null };
+    }
+
+    const report = { mode: this.mode, categories: findings };
+    if (this.mode === "block") {
+      throw new Error(
+        `Save blocked: content contains sensitive data (${Object.keys(findings).join(", ")}). Remove it or ask your team lead to change REDACTION_MODE.`
+      );
+    }
+
+    return { fields: this.mode === "mask" ? masked : fields, report };
+  }
+}
+
+/**
+ * Build the redactor from configuration, adding the team's custom rules
+ */
+export function loadRedactor(config: Config): Redactor {
+  let rules = BUILTIN_RULES;
+
+  if (config.redactionRulesFile) {
+    if (!existsSync(config.redactionRulesFile)) {
+      throw new Error(`REDACTION_RULES_FILE not found: ${config.redactionRulesFile}`);
+    }
+    const file = JSON.parse(
+      readFileSync(config.redactionRulesFile, "utf-8")
+    ) as RedactionRulesFile;
+
+    const disabled = new Set(file.disable || []);
+    const custom = (file.rules || []).map((rule) => {
+      try {
+        // Always global so every occurrence is replaced
+        const flags = new Set((rule.flags || "") + "g");
+        return {
+          category: rule.category,
+          pattern: new RegExp(rule.pattern, [...flags].join("")),
+          valueGroup: rule.value_group,
+        };
+      } catch (error) {
+        throw new Error(
+          `Invalid redaction rule "${rule.category}" in ${config.redactionRulesFile}: ${(error as Error).message}`
+        );
+      }
+    });
+
+    rules = [...BUILTIN_RULES.filter((r) => !disabled.has(r.category)), ...custom];
+  }
+
+  return new Redactor(config.redactionMode, rules);
+}
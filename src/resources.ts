@@ -0,0 +1,225 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import type { KnowledgeStore } from "./db/store.js";
+import type { Config, Conversation, ConversationThread } from "./types.js";
+import {
+  GetConversationSchema,
+  getConversation,
+  listConversations,
+} from "./tools/retrieve.js";
+import { formatAuthor } from "./tools/profile.js";
+
+// How many entries the recent list and the browsable conversation list show
+const RECENT_LIMIT = 20;
+// How many recent conversations tags are collected from for browsing
+const TAG_SCAN_LIMIT = 50;
+
+const RECENT_URI = "lytics://conversations/recent";
+
+export function conversationUri(id: string): string {
+  return `lytics://conversation/${id}`;
+}
+
+/**
+ * Lets tools tell the client that conversations changed, so it can
+ * refresh resource lists and any resources it subscribed to
+ */
+export interface ResourceNotifier {
+  conversationsChanged(ids: string[]): void;
+}
+
+/**
+ * Markdown rendering of a thread for clients to attach as context
+ */
+export function renderThread(thread: ConversationThread): string {
+  const lines = [
+    `# ${thread.title}`,
+    "",
+    `- ID: ${thread.id}`,
+    `- Author: ${formatAuthor(thread)}`,
+    `- Visibility: ${thread.is_public ? "public" : "private"}`,
+    ...(thread.tags.length > 0 ? [`- Tags: ${thread.tags.join(", ")}`] : []),
+    ...(thread.repo_context ? [`- Repository: ${thread.repo_context}`] : []),
+    `- Created: ${thread.created_at}`,
+    "",
+    ...(thread.summary ? ["## Summary", "", thread.summary, ""] : []),
+    thread.content,
+  ];
+
+  for (const session of thread.sessions) {
+    lines.push(
+      "",
+      `## Session ${session.thread_position}: ${session.title}`,
+      "",
+      `_${formatAuthor(session)}, ${session.created_at}_`,
+      "",
+      session.content
+    );
+  }
+  return lines.join("\n");
+}
+
+function listing(teamId: string, conversations: Conversation[]): string {
+  return JSON.stringify(
+    {
+      team: teamId,
+      conversations: conversations.map((c) => ({
+        id: c.id,
+        uri: conversationUri(c.id),
+        title: c.title,
+        author: formatAuthor(c),
+        tags: c.tags,
+        created: c.created_at,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Register saved conversations as MCP resources: each conversation by ID,
+ * the team's recent conversations, and conversations by tag. Reads go
+ * through the same access checks as the tools. Lists cover the default team;
+ * a conversation is found in any of the user's teams.
+ */
+export function registerResources(
+  server: McpServer,
+  db: KnowledgeStore,
+  config: Config
+): ResourceNotifier {
+  const teams = [...new Set([config.teamId, ...config.teamIds])];
+
+  const recent = () =>
+    listConversations(
+      { only_mine: false, limit: RECENT_LIMIT },
+      db,
+      config.teamId,
+      config.userId
+    );
+
+  server.registerResource(
+    "conversation",
+    new ResourceTemplate("lytics://conversation/{id}", {
+      list: async () => ({
+        resources: (await recent()).map((c) => ({
+          uri: conversationUri(c.id),
+          name: c.title,
+          description: c.summary ?? undefined,
+          mimeType: "text/markdown",
+        })),
+      }),
+    }),
+    {
+      title: "Saved conversation",
+      description: "A saved conversation with its follow-up sessions, as markdown",
+      mimeType: "text/markdown",
+    },
+    async (uri, { id }) => {
+      const input = GetConversationSchema.safeParse({ id });
+      for (const teamId of teams) {
+        const thread = input.success
+          ? await getConversation(input.data, db, teamId, config.userId)
+          : null;
+        if (thread) {
+          return {
+            contents: [{ uri: uri.href, mimeType: "text/markdown", text: renderThread(thread) }],
+          };
+        }
+      }
+      throw new Error(`Conversation not found or you don't have access to it: ${id}`);
+    }
+  );
+
+  server.registerResource(
+    "recent-conversations",
+    RECENT_URI,
+    {
+      title: "Recent team conversations",
+      description: `The ${RECENT_LIMIT} most recent conversations you can see in your default team`,
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        { uri: uri.href, mimeType: "application/json", text: listing(config.teamId, await recent()) },
+      ],
+    })
+  );
+
+  const tagsInUse = async () => {
+    const conversations = await listConversations(
+      { only_mine: false, limit: TAG_SCAN_LIMIT },
+      db,
+      config.teamId,
+      config.userId
+    );
+    return [...new Set(conversations.flatMap((c) => c.tags))].sort();
+  };
+
+  server.registerResource(
+    "tagged-conversations",
+    new ResourceTemplate("lytics://conversations/tagged/{tag}", {
+      list: async () => ({
+        resources: (await tagsInUse()).map((tag) => ({
+          uri: `lytics://conversations/tagged/${encodeURIComponent(tag)}`,
+          name: `Conversations tagged "${tag}"`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        tag: async (value) => (await tagsInUse()).filter((tag) => tag.startsWith(value)),
+      },
+    }),
+    {
+      title: "Conversations by tag",
+      description: "Recent conversations in your default team with a given tag",
+      mimeType: "application/json",
+    },
+    async (uri, { tag }) => {
+      const conversations = await listConversations(
+        { only_mine: false, tags: [decodeURIComponent(String(tag))], limit: RECENT_LIMIT },
+        db,
+        config.teamId,
+        config.userId
+      );
+      return {
+        contents: [
+          { uri: uri.href, mimeType: "application/json", text: listing(config.teamId, conversations) },
+        ],
+      };
+    }
+  );
+
+  // Clients may subscribe to a resource to hear when it changes
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return {
+    conversationsChanged(ids: string[]) {
+      if (!server.isConnected()) return;
+
+      server.sendResourceListChanged();
+      const changed = new Set(ids.map(conversationUri));
+      for (const uri of subscriptions) {
+        // Any change can move entries in or out of the lists
+        if (changed.has(uri) || uri.startsWith("lytics://conversations/")) {
+          server.server.sendResourceUpdated({ uri }).catch((error) => {
+            console.error("Failed to send resource update:", error);
+          });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,1459 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import type { KnowledgeStore } from "./db/store.js";
+import type { EmbeddingProvider } from "./embeddings/provider.js";
+import type { Redactor } from "./redaction/redactor.js";
+import type { Summarizer } from "./summaries/summarizer.js";
+import { resolveTeam } from "./types.js";
+import type { Config, SearchResult } from "./types.js";
+
+import {
+  saveConversation,
+  updateConversation,
+  regenerateSummary,
+} from "./tools/save.js";
+import {
+  searchConversations,
+  searchAllTeams,
+  searchSnippets,
+  findRelatedConversations,
+  excerptPassage,
+  formatSimilarity,
+} from "./tools/search.js";
+import {
+  getConversation,
+  selectTurns,
+  listConversations,
+  deleteConversation,
+  updateVisibility,
+} from "./tools/retrieve.js";
+import {
+  getConversationHistory,
+  diffConversationVersions,
+  restoreConversationVersion,
+} from "./tools/history.js";
+import { setProfile, getProfile, formatAuthor } from "./tools/profile.js";
+import { shareConversation, defineGroup, listGroups } from "./tools/share.js";
+import { exportConversations, importConversations } from "./tools/bundle.js";
+import { listTags, mergeTags, renameTag } from "./tools/tags.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+
+/**
+ * What a server answers tool calls with: one user's identity and store,
+ * plus the shared embedding, redaction and summary services
+ */
+export interface ServerContext {
+  config: Config;
+  db: KnowledgeStore;
+  embeddings: EmbeddingProvider;
+  redactor: Redactor;
+  summarizer: Summarizer;
+  // Where to look for exports and write bundles. Unset when callers are
+  // remote, which leaves out the tools that touch local files.
+  workspacePath?: string;
+}
+
+// Optional on every team-scoped tool, for users who belong to several teams
+const teamArg = z
+  .string()
+  .optional()
+  .describe("Team to use if you belong to several (defaults to your default team)");
+
+/**
+ * Create an MCP server with all tools, resources and prompts registered
+ */
+export function createServer({
+  config,
+  db,
+  embeddings,
+  redactor,
+  summarizer,
+  workspacePath,
+}: ServerContext): McpServer {
+  // Create MCP server
+  const server = new McpServer({
+    name: "lytics-mcp",
+    version: "1.0.0",
+  });
+
+  // Saved conversations as browsable resources
+  const resources = registerResources(server, db, config);
+
+  // Prompts for common workflows, pre-filled from the knowledge base
+  registerPrompts(server, db, embeddings, config);
+
+  server.registerTool(
+    "save_conversation",
+    {
+      description:
+        "Save the current conversation to your team's knowledge base. IMPORTANT: This tool will automatically search for exported conversation files in the workspace (Cursor .md exports, ChatGPT or Claude conversations.json, Copilot chat.json, .jsonl logs) to ensure complete content with code blocks is saved. You can also provide a file_path to an exported conversation file. Always include the FULL conversation content with ALL code blocks, examples, and formatting if passing content directly. Tags are normalized to the team's tag vocabulary; the response may list suggested_tags the team already uses - offer to add them with update_conversation.",
+      inputSchema: {
+        title: z.string().describe("A descriptive title for the conversation"),
+        content: z
+          .string()
+          .optional()
+          .describe(
+            "The full conversation content to save, including ALL code blocks, examples, and formatting. If omitted, auto-detection will be used."
+          ),
+        file_path: z
+          .string()
+          .optional()
+          .describe(
+            "Optional: Path to an exported conversation file (Cursor markdown, ChatGPT or Claude conversations.json, Copilot chat.json, or a .jsonl message log). If provided, content will be read from this file instead."
+          ),
+        format: z
+          .enum(["auto", "cursor", "markdown", "chatgpt", "claude", "copilot", "jsonl"])
+          .default("auto")
+          .describe(
+            "Format of the export in content or file_path. auto (default) detects it; name it when detection picks the wrong one"
+          ),
+        is_public: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Whether this conversation is visible to the whole team (true) or just you (false)"
+          ),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Optional tags to categorize the conversation (e.g., ['bug', 'auth', 'frontend'])"
+          ),
+        repo_context: z
+          .string()
+          .optional()
+          .describe("The repository or project this conversation is about"),
+        file_context: z
+          .array(z.string())
+          .optional()
+          .describe("List of file paths discussed in this conversation"),
+        generate_summary: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Whether to generate a structured summary: problem, root cause, solution, key decisions and files touched (default true)"
+          ),
+        auto_find_export: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Automatically search for exported conversation files in the workspace (enabled by default)"
+          ),
+        parent_id: z
+          .string()
+          .uuid()
+          .optional()
+          .describe(
+            "Optional: ID of an existing conversation this session continues. Use this when a debugging session picks up where a saved one left off - the new session is appended to that conversation's thread."
+          ),
+        on_duplicate: z
+          .enum(["ask", "skip", "merge", "force"])
+          .default("ask")
+          .describe(
+            "What to do if a near-duplicate is already saved: ask (default - report the duplicates and don't save, so the user can decide), skip (keep the existing entry), merge (fold into your existing entry), force (save anyway)"
+          ),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      if (args.file_path && !workspacePath) {
+        throw new Error(
+          "file_path isn't available on a shared server, which can't see your files. Pass the conversation as content instead."
+        );
+      }
+
+      const result = await saveConversation(
+        args,
+        db,
+        embeddings,
+        resolveTeam(config, args.team),
+        config.userId,
+        {
+          workspacePath,
+          duplicateThreshold: config.duplicateThreshold,
+          redactor,
+          summarizer,
+        }
+      );
+
+      if (result.status === "duplicate") {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  success: false,
+                  message:
+                    "Not saved: this looks like a near-duplicate of existing conversations. Ask the user whether to skip, merge into their existing entry, or force-save, then call save_conversation again with on_duplicate set.",
+                  duplicates: result.duplicates,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      if (result.id && result.status !== "skipped") {
+        resources.conversationsChanged(
+          result.thread_id ? [result.id, result.thread_id] : [result.id]
+        );
+      }
+
+      const response: any = {
+        success: true,
+        message: {
+          saved: "Conversation saved successfully!",
+          skipped: "Skipped: a near-duplicate is already saved.",
+          merged: "Merged into your existing near-duplicate conversation.",
+        }[result.status],
+        id: result.id,
+        summary: result.summary,
+        source: result.source,
+      };
+
+      if (result.tags && result.tags.length > 0) {
+        response.tags = result.tags;
+      }
+
+      if (result.suggested_tags) {
+        response.suggested_tags = result.suggested_tags;
+      }
+
+      if (result.duplicates) {
+        response.duplicates = result.duplicates;
+      }
+
+      if (result.redactions) {
+        response.redactions = result.redactions;
+      }
+
+      if (result.thread_id) {
+        response.thread_id = result.thread_id;
+        response.thread_position = result.thread_position;
+        response.message = `Session ${result.thread_position} added to the conversation thread!`;
+      }
+
+      if (result.warnings && result.warnings.length > 0) {
+        response.warnings = result.warnings;
+        response.message += " ⚠️ However, there are some warnings about the content quality.";
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(response, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "search_knowledge",
+    {
+      description:
+        "Search your team's conversation history for relevant discussions. Use this when tackling a new problem to see if teammates have already solved something similar.",
+      inputSchema: {
+        query: z
+          .string()
+          .describe(
+            "What are you looking for? Describe the problem, topic, or code area"
+          ),
+        limit: z
+          .number()
+          .min(1)
+          .max(20)
+          .default(5)
+          .describe("Maximum number of results to return (1-20)"),
+        include_private: z
+          .boolean()
+          .default(false)
+          .describe("Include your own private conversations in results"),
+        mode: z
+          .enum(["vector", "keyword", "hybrid"])
+          .default("hybrid")
+          .describe(
+            "vector: semantic similarity, keyword: exact terms like identifiers or error codes, hybrid (default): both combined"
+          ),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe("Only return conversations with these tags"),
+        tags_match: z
+          .enum(["any", "all"])
+          .default("any")
+          .describe("Match any (default) or all of the given tags"),
+        repo_context: z
+          .string()
+          .optional()
+          .describe("Only return conversations about this repository or project"),
+        author_id: z
+          .string()
+          .optional()
+          .describe("Only return conversations saved by this user ID"),
+        created_after: z
+          .string()
+          .optional()
+          .describe("Only return conversations created on or after this ISO date/time"),
+        created_before: z
+          .string()
+          .optional()
+          .describe("Only return conversations created on or before this ISO date/time"),
+        file_path_prefix: z
+          .string()
+          .optional()
+          .describe("Only return conversations that discussed a file under this path"),
+        min_similarity: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe("Minimum semantic similarity, 0-1 (default 0.7)"),
+        team: teamArg,
+        all_teams: z
+          .boolean()
+          .default(false)
+          .describe("Search every team you belong to; each result says which team it came from"),
+      },
+    },
+    async (args) => {
+      const results: (SearchResult & { team_id?: string })[] = args.all_teams
+        ? await searchAllTeams(args, db, embeddings, config.teamIds, config.userId)
+        : await searchConversations(
+            args,
+            db,
+            embeddings,
+            resolveTeam(config, args.team),
+            config.userId
+          );
+
+      if (results.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "No related conversations found. This might be a new topic for your team!",
+            },
+          ],
+        };
+      }
+
+      const formatted = results.map((r, i) => ({
+        rank: i + 1,
+        id: r.id,
+        ...(r.team_id && { team: r.team_id }),
+        title: r.title,
+        summary: r.summary,
+        author: formatAuthor(r),
+        author_id: r.user_id,
+        similarity: formatSimilarity(r.similarity),
+        tags: r.tags,
+        date: r.created_at,
+        matched_passage: excerptPassage(r.matched_passage),
+      }));
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                found: results.length,
+                conversations: formatted,
+                tip: "Use get_conversation with an ID to see the full content",
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "find_related",
+    {
+      description:
+        "Automatically find related past conversations based on your current context. Paste what you're working on and discover if teammates have tackled similar issues.",
+      inputSchema: {
+        context: z
+          .string()
+          .describe(
+            "The current conversation context or problem you're working on"
+          ),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const results = await findRelatedConversations(
+        args,
+        db,
+        embeddings,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      if (results.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "No related conversations found in your team's knowledge base.",
+            },
+          ],
+        };
+      }
+
+      const formatted = results.map((r) => ({
+        id: r.id,
+        title: r.title,
+        summary: r.summary,
+        relevance: formatSimilarity(r.similarity),
+        author: formatAuthor(r),
+        author_id: r.user_id,
+        matched_passage: excerptPassage(r.matched_passage),
+      }));
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                message: "🔍 Found related discussions from your team:",
+                related: formatted,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "search_snippets",
+    {
+      description:
+        "Search the code blocks from your team's saved conversations and get the code back ready to paste, with the explanation around it and a link to the conversation it came from. Use this when you need working code rather than a whole discussion.",
+      inputSchema: {
+        query: z
+          .string()
+          .describe("What the code should do, e.g. 'retry a fetch with exponential backoff'"),
+        language: z
+          .string()
+          .optional()
+          .describe("Only return snippets in this language, e.g. 'typescript', 'sql', 'bash'"),
+        limit: z
+          .number()
+          .min(1)
+          .max(20)
+          .default(5)
+          .describe("Maximum number of snippets to return"),
+        include_private: z
+          .boolean()
+          .default(false)
+          .describe("Include snippets from your own private conversations"),
+        min_similarity: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe("Minimum cosine similarity (default 0.5)"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const results = await searchSnippets(
+        args,
+        db,
+        embeddings,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      if (results.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "No matching code snippets found. Try search_knowledge for whole conversations.",
+            },
+          ],
+        };
+      }
+
+      // Markdown rather than JSON, so the code can be copied as-is
+      const text = results
+        .map((r, i) =>
+          [
+            `### ${i + 1}. ${r.file ?? r.language ?? "snippet"} (${formatSimilarity(r.similarity)})`,
+            `From "${r.conversation_title}" by ${formatAuthor(r)} - conversation ${r.conversation_id}`,
+            ...(r.explanation ? [`> ${r.explanation.replace(/\n/g, "\n> ")}`] : []),
+            `\`\`\`${r.language ?? ""}\n${r.code}\n\`\`\``,
+          ].join("\n\n")
+        )
+        .join("\n\n");
+
+      return {
+        content: [{ type: "text" as const, text }],
+      };
+    }
+  );
+
+  server.registerTool(
+    "get_conversation",
+    {
+      description:
+        "Retrieve the full content of a specific saved conversation by its ID, including any follow-up sessions in its thread. For saved chat transcripts, pass turns or final_answer to get just part of the conversation instead of the whole transcript.",
+      inputSchema: {
+        id: z.string().uuid().describe("The UUID of the conversation to retrieve"),
+        turns: z
+          .array(z.number().int().min(1))
+          .optional()
+          .describe("Only return these turns (1-based, numbered across the whole thread)"),
+        final_answer: z
+          .boolean()
+          .default(false)
+          .describe("Only return the last assistant reply in the thread"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const conversation = await getConversation(
+        args,
+        db,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      if (!conversation) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Conversation not found or you don't have access to it.",
+            },
+          ],
+        };
+      }
+
+      if (args.turns || args.final_answer) {
+        const selected = selectTurns(conversation, args);
+        if (!selected) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "This conversation wasn't saved from a chat transcript, so it has no turns. Call get_conversation without turns or final_answer for the full content.",
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  id: conversation.id,
+                  title: conversation.title,
+                  author: formatAuthor(conversation),
+                  author_id: conversation.user_id,
+                  total_turns: selected.total_turns,
+                  turns: selected.turns,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                id: conversation.id,
+                title: conversation.title,
+                author: formatAuthor(conversation),
+                author_id: conversation.user_id,
+                visibility: conversation.is_public ? "public" : "private",
+                tags: conversation.tags,
+                repo: conversation.repo_context,
+                files: conversation.file_context,
+                summary: conversation.summary,
+                created: conversation.created_at,
+                content: conversation.content,
+                sessions: conversation.sessions.map((session) => ({
+                  id: session.id,
+                  position: session.thread_position,
+                  title: session.title,
+                  author: formatAuthor(session),
+                  author_id: session.user_id,
+                  summary: session.summary,
+                  created: session.created_at,
+                  content: session.content,
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "list_conversations",
+    {
+      description:
+        "List saved conversations from your team's knowledge base. Filter by your own or browse team-wide insights.",
+      inputSchema: {
+        only_mine: z
+          .boolean()
+          .default(false)
+          .describe("Only show your own conversations"),
+        tags: z.array(z.string()).optional().describe("Filter by specific tags"),
+        limit: z
+          .number()
+          .min(1)
+          .max(50)
+          .default(20)
+          .describe("Maximum number of results (1-50)"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const conversations = await listConversations(
+        args,
+        db,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      const formatted = conversations.map((c) => ({
+        id: c.id,
+        title: c.title,
+        author: formatAuthor(c),
+        author_id: c.user_id,
+        visibility: c.is_public ? "public" : "private",
+        tags: c.tags,
+        date: c.created_at,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                count: conversations.length,
+                conversations: formatted,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "delete_conversation",
+    {
+      description:
+        "Delete one of your saved conversations. You can only delete conversations you created.",
+      inputSchema: {
+        id: z.string().uuid().describe("The UUID of the conversation to delete"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const result = await deleteConversation(
+        args,
+        db,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      // Deletes that removed nothing change no resources
+      if (result.success) {
+        resources.conversationsChanged([args.id]);
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: result.success
+              ? "Conversation deleted successfully."
+              : "Conversation not found or you don't own it.",
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "update_visibility",
+    {
+      description:
+        "Change a conversation between public (team-visible) and private (only you). You can only modify your own conversations.",
+      inputSchema: {
+        id: z.string().uuid().describe("The UUID of the conversation to update"),
+        is_public: z
+          .boolean()
+          .describe("Set to true for public, false for private"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const result = await updateVisibility(
+        args,
+        db,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      if (result.success) {
+        resources.conversationsChanged([args.id]);
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: result.success
+              ? `Conversation visibility updated to ${
+                  args.is_public ? "public" : "private"
+                }.`
+              : "Conversation not found or you don't own it.",
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "share_conversation",
+    {
+      description:
+        "Share a private conversation with specific teammates or groups (e.g. 'payments-oncall') without publishing it team-wide, or revoke their access. Sharing applies to the whole thread. You can only share your own conversations.",
+      inputSchema: {
+        id: z.string().uuid().describe("The ID of the conversation to share"),
+        users: z
+          .array(z.string())
+          .optional()
+          .describe("User IDs of teammates to share with"),
+        groups: z
+          .array(z.string())
+          .optional()
+          .describe("Names of groups to share with, e.g. 'payments-oncall'"),
+        action: z
+          .enum(["share", "unshare"])
+          .default("share")
+          .describe("share (default) grants access; unshare revokes it"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const result = await shareConversation(
+        args,
+        db,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      if (result.success) {
+        resources.conversationsChanged([args.id]);
+      }
+
+      if (!result.success) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Conversation not found or you don't own it.",
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                message: args.action === "share" ? "✅ Conversation shared" : "✅ Access revoked",
+                thread_id: result.thread_id,
+                visibility: result.is_public ? "public" : "private",
+                shared_with: result.shares,
+                ...(result.is_public && {
+                  note: "This conversation is public, so the whole team can already see it.",
+                }),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "define_group",
+    {
+      description:
+        "Create a named group of teammates (e.g. 'payments-oncall') to share conversations with, or update the members of a group you created.",
+      inputSchema: {
+        name: z
+          .string()
+          .regex(/^[a-z0-9][a-z0-9._-]*$/, "Use lowercase letters, digits, '.', '_' or '-'")
+          .max(64)
+          .describe("Group name, e.g. 'payments-oncall'"),
+        description: z.string().max(200).optional().describe("What the group is for"),
+        members: z
+          .array(z.string())
+          .describe("User IDs of the members (replaces the current member list)"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const group = await defineGroup(args, db, resolveTeam(config, args.team), config.userId);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ message: "✅ Group saved", group }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "list_groups",
+    {
+      description: "List your team's groups and their members.",
+      inputSchema: {
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const groups = await listGroups(db, resolveTeam(config, args.team));
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text:
+              groups.length === 0
+                ? "No groups defined yet. Use define_group to create one."
+                : JSON.stringify({ count: groups.length, groups }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "list_tags",
+    {
+      description:
+        "List the team's tags with how many conversations use each. Tags in the team vocabulary show their aliases (other spellings that are saved as that tag); tags outside it show what they normalize to. Use it to spot near-duplicate tags worth merging with merge_tags.",
+      inputSchema: {
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const tags = await listTags(db, resolveTeam(config, args.team), config.userId);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text:
+              tags.length === 0
+                ? "No tags yet."
+                : JSON.stringify({ count: tags.length, tags }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "merge_tags",
+    {
+      description:
+        "Fold several tags into one across the team's conversations, e.g. 'Auth', 'authentication' and 'login' into 'auth'. The merged names become aliases, so saves that use them get the target tag. Spellings that only differ in case or separators are merged too. Affects every team member's entries; the previous tags stay in each conversation's history.",
+      inputSchema: {
+        tags: z
+          .array(z.string())
+          .min(1)
+          .describe("Tags to fold into the target, e.g. ['Auth', 'authentication', 'login']"),
+        into: z.string().describe("The tag to keep, e.g. 'auth'"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const result = await mergeTags(args, db, resolveTeam(config, args.team), config.userId);
+      resources.conversationsChanged([]);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                success: true,
+                message: `Merged into "${result.tag}" on ${result.conversations_updated} conversation(s).`,
+                ...result,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "rename_tag",
+    {
+      description:
+        "Rename a tag across the team's conversations. The old name is kept as an alias, so saves that still use it get the new name. To combine two existing tags, use merge_tags instead.",
+      inputSchema: {
+        from: z.string().describe("Current tag name"),
+        to: z.string().describe("New tag name"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const result = await renameTag(args, db, resolveTeam(config, args.team), config.userId);
+      resources.conversationsChanged([]);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                success: true,
+                message: `Renamed to "${result.tag}" on ${result.conversations_updated} conversation(s).`,
+                ...result,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "update_conversation",
+    {
+      description:
+        "Edit one of your saved conversations in place, keeping its ID so shared links keep working. Fix the title, tags, repo or files, replace the content, or append a follow-up session. The embedding and summary are recomputed when the title or content change.",
+      inputSchema: {
+        id: z.string().uuid().describe("The UUID of the conversation to update"),
+        title: z.string().optional().describe("New title"),
+        content: z
+          .string()
+          .optional()
+          .describe("Replacement for the full conversation content"),
+        append_content: z
+          .string()
+          .optional()
+          .describe("Follow-up content to append to the existing content"),
+        summary: z
+          .string()
+          .optional()
+          .describe("New summary (regenerated automatically if content changes and this is omitted)"),
+        tags: z.array(z.string()).optional().describe("Replacement tag list"),
+        repo_context: z
+          .string()
+          .optional()
+          .describe("The repository or project this conversation is about"),
+        file_context: z
+          .array(z.string())
+          .optional()
+          .describe("Replacement list of file paths discussed"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const result = await updateConversation(
+        args,
+        db,
+        embeddings,
+        resolveTeam(config, args.team),
+        config.userId,
+        redactor,
+        summarizer
+      );
+
+      if (result.success) {
+        resources.conversationsChanged([args.id]);
+      }
+
+      if (!result.success) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Conversation not found or you don't own it.",
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                success: true,
+                message: "Conversation updated successfully!",
+                id: args.id,
+                updated_fields: result.updated_fields,
+                reembedded: result.reembedded,
+                summary: result.summary,
+                redactions: result.redactions,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "regenerate_summary",
+    {
+      description:
+        "Write a fresh structured summary (problem, root cause, solution, key decisions, files touched) for one of your saved conversations. Use it on entries saved before summaries were structured, or whose summary no longer fits. The old summary stays in the history.",
+      inputSchema: {
+        id: z.string().uuid().describe("The UUID of the conversation"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const result = await regenerateSummary(
+        args,
+        db,
+        resolveTeam(config, args.team),
+        config.userId,
+        summarizer
+      );
+
+      if (!result) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Conversation not found or you don't own it.",
+            },
+          ],
+        };
+      }
+
+      resources.conversationsChanged([args.id]);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                success: true,
+                message: `Summary regenerated with the ${summarizer.name} summarizer.`,
+                id: args.id,
+                summary: result.summary,
+                previous_summary: result.previous,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "get_conversation_history",
+    {
+      description:
+        "List the revisions of a saved conversation, oldest first, ending with the current version. Use diff_conversation_versions to see what changed between two of them.",
+      inputSchema: {
+        id: z.string().uuid().describe("The UUID of the conversation"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const versions = await getConversationHistory(
+        args,
+        db,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      if (!versions) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Conversation not found or you don't have access to it.",
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                id: args.id,
+                count: versions.length,
+                versions: versions.map((v) => ({
+                  version: v.version,
+                  current: v.is_current,
+                  title: v.title,
+                  visibility: v.is_public ? "public" : "private",
+                  tags: v.tags,
+                  date: v.created_at,
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "diff_conversation_versions",
+    {
+      description:
+        "Show a unified diff between two revisions of a conversation, covering the title, tags, repo, files and content.",
+      inputSchema: {
+        id: z.string().uuid().describe("The UUID of the conversation"),
+        from_version: z.number().int().min(1).describe("The older version number"),
+        to_version: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("The newer version number (defaults to the current version)"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const result = await diffConversationVersions(
+        args,
+        db,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: result
+              ? result.diff
+              : "Conversation not found or you don't have access to it.",
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "restore_conversation_version",
+    {
+      description:
+        "Restore one of your conversations to an earlier revision. The version being replaced is kept in the history, so a restore can itself be undone.",
+      inputSchema: {
+        id: z.string().uuid().describe("The UUID of the conversation"),
+        version: z.number().int().min(1).describe("The version number to restore"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const result = await restoreConversationVersion(
+        args,
+        db,
+        embeddings,
+        resolveTeam(config, args.team),
+        config.userId
+      );
+
+      if (result.success) {
+        resources.conversationsChanged([args.id]);
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: result.success
+              ? `Conversation restored to version ${result.restored_version}.`
+              : "Conversation or version not found, or you don't own it.",
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "set_profile",
+    {
+      description:
+        "Set your profile so teammates see your name instead of your user ID in search results and listings. Fields you leave out keep their current value.",
+      inputSchema: {
+        display_name: z
+          .string()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Name shown to teammates (required the first time)"),
+        email: z
+          .union([z.string().email(), z.literal("")])
+          .optional()
+          .describe("Contact email (empty string to clear)"),
+        handle: z
+          .string()
+          .max(100)
+          .optional()
+          .describe("Chat or GitHub handle, e.g. @jane (empty string to clear)"),
+        role: z
+          .string()
+          .max(100)
+          .optional()
+          .describe("Your role on the team, e.g. 'Frontend lead' (empty string to clear)"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const profile = await setProfile(args, db, resolveTeam(config, args.team), config.userId);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                message: "✅ Profile saved",
+                profile,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerTool(
+    "get_profile",
+    {
+      description:
+        "Look up a teammate's profile (name, email, handle, role) by their user ID, or your own profile.",
+      inputSchema: {
+        user_id: z
+          .string()
+          .optional()
+          .describe("A teammate's user ID (defaults to your own profile)"),
+        team: teamArg,
+      },
+    },
+    async (args) => {
+      const profile = await getProfile(args, db, resolveTeam(config, args.team), config.userId);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: profile
+              ? JSON.stringify(profile, null, 2)
+              : args.user_id
+                ? "No profile found for that user ID in your team."
+                : "You haven't set up a profile yet. Use set_profile to add your name.",
+          },
+        ],
+      };
+    }
+  );
+
+  // Exporting and importing read and write files in the workspace
+  if (workspacePath) {
+    server.registerTool(
+      "export_conversations",
+      {
+        description:
+          "Export the conversations you can see (with their follow-up sessions) to a portable bundle: a directory of markdown files with YAML front matter, or a JSONL archive. Use it for backups, migrating between backends, or sharing outside the team.",
+        inputSchema: {
+          path: z
+            .string()
+            .describe("Where to write the bundle: a directory for markdown, a .jsonl file for jsonl (relative to the workspace)"),
+          format: z
+            .enum(["markdown", "jsonl"])
+            .default("markdown")
+            .describe("markdown (default): one readable .md file per conversation; jsonl: one JSON object per line"),
+          only_mine: z
+            .boolean()
+            .default(false)
+            .describe("Only export your own conversations"),
+          tags: z
+            .array(z.string())
+            .optional()
+            .describe("Only export conversations with all of these tags"),
+          include_embeddings: z
+            .boolean()
+            .default(false)
+            .describe("Include chunk embeddings (jsonl only) so importing doesn't have to re-embed"),
+          team: teamArg,
+        },
+      },
+      async (args) => {
+        const result = await exportConversations(
+          args,
+          db,
+          resolveTeam(config, args.team),
+          config.userId,
+          workspacePath
+        );
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `📦 Exported ${result.exported} conversation(s) in ${result.threads} thread(s) to ${result.path} (${result.format})`,
+            },
+          ],
+        };
+      }
+    );
+
+    server.registerTool(
+      "import_conversations",
+      {
+        description:
+          "Import a bundle written by export_conversations (a directory of markdown files, a single .md file, or a .jsonl archive) into your team. Imported entries are owned by you and keep their threads, timestamps and summaries.",
+        inputSchema: {
+          path: z
+            .string()
+            .describe("The bundle to import (relative to the workspace)"),
+          preserve_ids: z
+            .boolean()
+            .default(true)
+            .describe("Keep the conversation IDs from the bundle (default true)"),
+          on_conflict: z
+            .enum(["skip", "overwrite", "new_id"])
+            .default("skip")
+            .describe("When an ID already exists: skip it (default), overwrite it (your own entries only), or import it under a new ID"),
+          reembed: z
+            .boolean()
+            .default(false)
+            .describe("Re-embed even when the bundle contains embeddings, e.g. after switching embedding models"),
+          team: teamArg,
+        },
+      },
+      async (args) => {
+        const result = await importConversations(
+          args,
+          db,
+          embeddings,
+          resolveTeam(config, args.team),
+          config.userId,
+          { workspacePath, redactor }
+        );
+
+        if (result.imported + result.overwritten > 0) {
+          resources.conversationsChanged([]);
+        }
+
+        let text = `📥 Imported ${result.imported}, overwrote ${result.overwritten}, skipped ${result.skipped} existing conversation(s)`;
+        if (result.failed.length > 0) {
+          text +=
+            `\n\n⚠️ ${result.failed.length} failed:\n` +
+            result.failed.map((f) => `- ${f.title} (${f.id}): ${f.error}`).join("\n");
+        }
+
+        return {
+          content: [{ type: "text" as const, text }],
+        };
+      }
+    );
+  }
+
+  server.registerTool(
+    "get_user_id",
+    {
+      description:
+        "Get your unique User ID and team. Use this to share your identity with teammates or access your conversations from another machine.",
+      inputSchema: {},
+    },
+    async () => {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                user_id: config.userId,
+                team_id: config.teamId,
+                teams: config.teamIds,
+                message: "This is your unique identifier. Share it with teammates to let them find your public conversations.",
+                ...(config.apiToken
+                  ? {
+                      verified_by: "LYTICS_API_TOKEN (team membership)",
+                      tip: "To use this identity on another machine, set the same LYTICS_API_TOKEN there.",
+                    }
+                  : {
+                      storage_location: "~/.lytics-mcp/user-id.txt",
+                      tip: "To use this ID on another machine, copy it to ~/.lytics-mcp/user-id.txt on that machine.",
+                    }),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  return server;
+}
@@ -0,0 +1,137 @@
+import type { ConversationMessage } from "../types.js";
+import { FenceTracker, toMessage } from "../transcripts/messages.js";
+import type { StructuredSummary, Summarizer, SummaryInput } from "./summarizer.js";
+
+// Longest sentence kept in a summary section
+const MAX_SENTENCE_LENGTH = 240;
+const MAX_DECISIONS = 5;
+const MAX_FILES = 10;
+
+// Phrases that tend to introduce each section
+const CAUSE_CUES =
+  /\b(root cause|the cause|because|caused by|due to|the (issue|problem|bug|error) (is|was)|happens when|the reason)\b/i;
+const FIX_CUES =
+  /\b(fix(ed|es)?|solution|solved|resolves?|resolved|works now|instead|replace|switch(ed)? to|upgrade|set|add|remove|change|use)\b/i;
+const DECISION_CUES =
+  /\b(decided|decision|we'll|we will|let's|going with|go with|chose|choose|opted|prefer|rather than|instead of|trade-?off)\b/i;
+
+// "User: ..." in pasted conversations that aren't a recognised export
+const SPEAKER_LABEL = /^(?:user|human|me|assistant|ai|claude|chatgpt|copilot|cursor|gpt-?\d*)\s*:\s*/i;
+
+// Relative paths and file names with a source-like extension
+const FILE_PATH =
+  /(?:^|[\s`'"(])((?:[\w@.-]+\/)*[\w@-][\w@.-]*\.(?:tsx?|jsx?|mjs|cjs|py|go|rs|java|kt|rb|php|cs|cpp|c|h|swift|sql|json|ya?ml|toml|md|css|scss|html|vue|svelte|sh|env|prisma|graphql|proto))(?=$|[\s`'"),:;.])/g;
+// "Node.js" and friends look like files but are frameworks
+const NOT_A_FILE = /^[A-Z]\w*\.js$/;
+
+/**
+ * The prose of a message: code blocks, speaker lines, separators and
+ * headings left out
+ */
+function proseOf(text: string): string {
+  const fence = new FenceTracker();
+  const lines: string[] = [];
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    const { opened, closed } = fence.next(line);
+    if (opened !== undefined || closed || fence.inFence) continue;
+    if (/^\s*(-{3,}|\*\*[^*]+\*\*|#{1,6}\s.*)\s*$/.test(line)) {
+      lines.push("");
+      continue;
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+function sentencesOf(text: string): string[] {
+  return proseOf(text)
+    .split(/\n\s*\n/)
+    .flatMap((paragraph) =>
+      paragraph
+        // List items are sentences of their own
+        .split(/\n\s*(?:[-*+]|\d+\.)\s+/)
+        .flatMap((part) => part.replace(/\s+/g, " ").split(/(?<=[.!?])\s+(?=[A-Z0-9`"'(])/))
+    )
+    .map((sentence) =>
+      sentence.replace(/^\s*(?:[-*+]|\d+\.)\s+/, "").trim().replace(SPEAKER_LABEL, "")
+    )
+    .filter((sentence) => sentence.length >= 12)
+    .map((sentence) =>
+      sentence.length > MAX_SENTENCE_LENGTH
+        ? sentence.slice(0, MAX_SENTENCE_LENGTH).trimEnd() + "..."
+        : sentence
+    );
+}
+
+function filesOf(input: SummaryInput, messages: ConversationMessage[]): string[] {
+  const files = new Set<string>(input.fileContext);
+  for (const message of messages) {
+    for (const block of message.code_blocks) {
+      if (block.file) files.add(block.file);
+    }
+    for (const match of proseOf(message.content).matchAll(FILE_PATH)) {
+      if (!NOT_A_FILE.test(match[1])) files.add(match[1]);
+    }
+  }
+  return [...files].slice(0, MAX_FILES);
+}
+
+/**
+ * Picks sentences out of the conversation itself, so it needs no model and
+ * no network: the question that opened it, the sentence that names a cause,
+ * the one that states the fix in the last answer that changed something,
+ * and sentences that record a choice.
+ */
+export class ExtractiveSummarizer implements Summarizer {
+  readonly name = "extractive";
+
+  async summarize(input: SummaryInput): Promise<StructuredSummary> {
+    // Free-form content reads as one question followed by one answer
+    const messages = input.messages ?? [toMessage("assistant", input.content)];
+    const questions = input.messages
+      ? messages.filter((m) => m.role === "user")
+      : [toMessage("user", input.content.split(/\n\s*\n/)[0])];
+    const answers = messages.filter((m) => m.role === "assistant");
+
+    const problem =
+      sentencesOf(questions[0]?.content ?? "").slice(0, 2).join(" ") || input.title;
+
+    const rootCause =
+      answers.flatMap((m) => sentencesOf(m.content)).find((s) => CAUSE_CUES.test(s)) ?? null;
+
+    // The last answer that changed something: it carries code or says what to change
+    const fixing = [...answers]
+      .reverse()
+      .find(
+        (m) =>
+          m.code_blocks.length > 0 ||
+          sentencesOf(m.content).some((s) => FIX_CUES.test(s))
+      );
+    const fixSentences = fixing
+      ? sentencesOf(fixing.content).filter((s) => s !== rootCause)
+      : [];
+    // Prefer the change itself over the choice that led to it
+    const solution =
+      fixSentences.find((s) => FIX_CUES.test(s) && !DECISION_CUES.test(s)) ??
+      fixSentences.find((s) => FIX_CUES.test(s)) ??
+      fixSentences[0] ??
+      null;
+
+    const used = new Set([problem, rootCause, solution]);
+    const decisions = [
+      ...new Set(
+        messages
+          .flatMap((m) => sentencesOf(m.content))
+          .filter((s) => DECISION_CUES.test(s) && !used.has(s))
+      ),
+    ].slice(0, MAX_DECISIONS);
+
+    return {
+      problem,
+      root_cause: rootCause,
+      solution,
+      key_decisions: decisions,
+      files: filesOf(input, messages),
+    };
+  }
+}
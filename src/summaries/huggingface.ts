@@ -0,0 +1,76 @@
+import { HfInference } from "@huggingface/inference";
+import { z } from "zod";
+
+import { ExtractiveSummarizer } from "./extractive.js";
+import type { StructuredSummary, Summarizer, SummaryInput } from "./summarizer.js";
+
+// An instruction-tuned model that follows a JSON format; free tier available
+const DEFAULT_SUMMARY_MODEL = "Qwen/Qwen2.5-7B-Instruct";
+
+// How much of the conversation the model gets to read
+const MAX_INPUT_LENGTH = 12000;
+
+const ModelSummarySchema = z.object({
+  problem: z.string().nullable().catch(null),
+  root_cause: z.string().nullable().catch(null),
+  solution: z.string().nullable().catch(null),
+  key_decisions: z.array(z.string()).catch([]),
+  files: z.array(z.string()).catch([]),
+});
+
+const INSTRUCTIONS = `You summarise conversations between a developer and an AI assistant for a team knowledge base.
+Reply with only a JSON object with these keys:
+- "problem": what the developer was trying to do or fix, in one sentence
+- "root_cause": why it happened, in one sentence, or null if the conversation doesn't say
+- "solution": what fixed it or what was built, in one or two sentences, naming the concrete change
+- "key_decisions": choices that were made and why, one short sentence each (can be empty)
+- "files": file paths that were changed or discussed (can be empty)
+Only use facts from the conversation.`;
+
+/**
+ * Asks an instruction-tuned model on the Hugging Face Inference API for the
+ * summary. Falls back to the extractive summarizer when the API fails or
+ * the reply isn't usable.
+ */
+export class HuggingFaceSummarizer implements Summarizer {
+  readonly name = "huggingface";
+  private client: HfInference;
+  private fallback = new ExtractiveSummarizer();
+
+  constructor(apiKey: string, private model: string = DEFAULT_SUMMARY_MODEL) {
+    this.client = new HfInference(apiKey);
+  }
+
+  async summarize(input: SummaryInput): Promise<StructuredSummary> {
+    try {
+      const result = await this.client.chatCompletion({
+        model: this.model,
+        messages: [
+          { role: "system", content: INSTRUCTIONS },
+          {
+            role: "user",
+            content: `Title: ${input.title}\n\n${input.content.slice(0, MAX_INPUT_LENGTH)}`,
+          },
+        ],
+        max_tokens: 500,
+        temperature: 0,
+      });
+
+      // Models like to wrap JSON in a code fence
+      const reply = result.choices[0]?.message?.content ?? "";
+      const json = reply.slice(reply.indexOf("{"), reply.lastIndexOf("}") + 1);
+      const summary = ModelSummarySchema.parse(JSON.parse(json));
+
+      if (!summary.problem && !summary.solution) {
+        throw new Error("The model's summary has neither a problem nor a solution");
+      }
+      return {
+        ...summary,
+        files: [...new Set([...input.fileContext, ...summary.files])],
+      };
+    } catch (error) {
+      console.error("Summary generation failed, using extractive summary:", error);
+      return this.fallback.summarize(input);
+    }
+  }
+}
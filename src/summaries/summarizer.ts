@@ -0,0 +1,80 @@
+import type { Config, ConversationMessage } from "../types.js";
+import { ExtractiveSummarizer } from "./extractive.js";
+import { HuggingFaceSummarizer } from "./huggingface.js";
+
+/**
+ * What a conversation was about, broken down so a reader can tell at a
+ * glance whether it solves their problem
+ */
+export interface StructuredSummary {
+  problem: string | null;
+  root_cause: string | null;
+  solution: string | null;
+  key_decisions: string[];
+  files: string[];
+}
+
+export interface SummaryInput {
+  title: string;
+  content: string;
+  // Turns of a recognised transcript; null for free-form content
+  messages: ConversationMessage[] | null;
+  // Files the saver said were discussed
+  fileContext: string[];
+}
+
+/**
+ * Produces structured summaries of saved conversations
+ */
+export interface Summarizer {
+  readonly name: string;
+
+  summarize(input: SummaryInput): Promise<StructuredSummary>;
+}
+
+// Labels of the summary text, in order. The text form is what gets stored,
+// searched and shown, so it has to read well on its own.
+const SECTIONS = [
+  ["problem", "Problem"],
+  ["root_cause", "Root cause"],
+  ["solution", "Solution"],
+  ["key_decisions", "Key decisions"],
+  ["files", "Files"],
+] as const;
+
+/**
+ * One line of text, so a value can't break the layout it is written into
+ */
+function oneLine(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Render a summary as labelled lines, with list sections as "- " items
+ * under their label, leaving out empty sections. Returns null when there
+ * is nothing to say.
+ */
+export function renderSummary(summary: StructuredSummary): string | null {
+  const lines = SECTIONS.flatMap(([key, label]) => {
+    const value = summary[key];
+    if (Array.isArray(value)) {
+      const items = value.map(oneLine).filter((item) => item.length > 0);
+      return items.length > 0 ? [`${label}:`, ...items.map((item) => `- ${item}`)] : [];
+    }
+    const text = value ? oneLine(value) : "";
+    return text ? [`${label}: ${text}`] : [];
+  });
+  return lines.length > 0 ? lines.join("\n") : null;
+}
+
+/**
+ * Create the summarizer selected in the configuration
+ */
+export function createSummarizer(config: Config): Summarizer {
+  switch (config.summarizer) {
+    case "extractive":
+      return new ExtractiveSummarizer();
+    case "huggingface":
+      return new HuggingFaceSummarizer(config.huggingfaceApiKey!, config.summaryModel);
+  }
+}
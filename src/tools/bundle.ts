@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { resolve } from "path";
+import type { KnowledgeStore } from "../db/store.js";
+import type { EmbeddingProvider } from "../embeddings/provider.js";
+import type { Redactor } from "../redaction/redactor.js";
+import { readBundle, writeBundle, type BundleRecord } from "../bundle/format.js";
+import { parseTranscript } from "../transcripts/importer.js";
+import { embedChunks, embedSnippets } from "./save.js";
+
+// Page size when walking the knowledge base for an export
+const EXPORT_PAGE_SIZE = 100;
+
+export const ExportConversationsSchema = z.object({
+  path: z
+    .string()
+    .describe("Where to write the bundle: a directory for markdown, a .jsonl file for jsonl (relative paths are resolved against the workspace)"),
+  format: z
+    .enum(["markdown", "jsonl"])
+    .default("markdown")
+    .describe("markdown: one readable .md file with YAML front matter per conversation; jsonl: one JSON object per line"),
+  only_mine: z
+    .boolean()
+    .default(false)
+    .describe("Only export your own conversations"),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Only export conversations with all of these tags"),
+  include_embeddings: z
+    .boolean()
+    .default(false)
+    .describe("Include chunk embeddings (jsonl only) so an import doesn't have to re-embed"),
+});
+
+export type ExportConversationsInput = z.infer<typeof ExportConversationsSchema>;
+
+/**
+ * Export every conversation the user can see, with their follow-up
+ * sessions, as a portable bundle
+ */
+export async function exportConversations(
+  input: ExportConversationsInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string,
+  workspacePath?: string
+): Promise<{ path: string; format: string; threads: number; exported: number }> {
+  if (input.include_embeddings && input.format !== "jsonl") {
+    throw new Error("Embeddings can only be exported in the jsonl format");
+  }
+
+  const records: BundleRecord[] = [];
+  let threads = 0;
+
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const roots = await db.listConversations(teamId, userId, {
+      onlyMine: input.only_mine,
+      tags: input.tags,
+      limit: EXPORT_PAGE_SIZE,
+      offset,
+    });
+
+    for (const root of roots) {
+      const sessions = await db.getThreadSessions(root.id, teamId, userId);
+      for (const conversation of [root, ...sessions]) {
+        records.push(
+          input.include_embeddings
+            ? { ...conversation, chunks: await db.getConversationChunks(conversation.id) }
+            : conversation
+        );
+      }
+      threads++;
+    }
+
+    if (roots.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  const path = resolve(workspacePath || process.cwd(), input.path);
+  writeBundle(path, input.format, records);
+
+  return { path, format: input.format, threads, exported: records.length };
+}
+
+export const ImportConversationsSchema = z.object({
+  path: z
+    .string()
+    .describe("Bundle to import: a directory of markdown files, a single .md file or a .jsonl file"),
+  preserve_ids: z
+    .boolean()
+    .default(true)
+    .describe("Keep the conversation IDs from the bundle so links and threads stay intact"),
+  on_conflict: z
+    .enum(["skip", "overwrite", "new_id"])
+    .default("skip")
+    .describe("When an ID already exists: skip it, overwrite it (your own entries only), or import it under a new ID"),
+  reembed: z
+    .boolean()
+    .default(false)
+    .describe("Re-embed even when the bundle contains embeddings (entries without embeddings are always embedded)"),
+});
+
+export type ImportConversationsInput = z.infer<typeof ImportConversationsSchema>;
+
+export interface ImportConversationsResult {
+  imported: number;
+  overwritten: number;
+  skipped: number;
+  failed: { id: string; title: string; error: string }[];
+}
+
+/**
+ * Import a bundle into a team. Imported entries belong to the importing
+ * user. Thread roots are imported before their sessions so parent links
+ * can follow any IDs that change.
+ */
+export async function importConversations(
+  input: ImportConversationsInput,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
+  teamId: string,
+  userId: string,
+  options: { workspacePath?: string; redactor?: Redactor } = {}
+): Promise<ImportConversationsResult> {
+  const records = readBundle(resolve(options.workspacePath || process.cwd(), input.path)).sort(
+    (a, b) =>
+      Number(!!a.parent_id) - Number(!!b.parent_id) || a.thread_position - b.thread_position
+  );
+
+  const result: ImportConversationsResult = { imported: 0, overwritten: 0, skipped: 0, failed: [] };
+  // Bundle ID -> ID in this knowledge base
+  const ids = new Map<string, string>();
+
+  for (const record of records) {
+    try {
+      const existing = input.preserve_ids
+        ? await db.getConversation(record.id, teamId, userId)
+        : null;
+
+      if (existing && input.on_conflict === "skip") {
+        ids.set(record.id, existing.id);
+        result.skipped++;
+        continue;
+      }
+
+      let { title, content, tags, repo_context, file_context } = record;
+      if (options.redactor) {
+        ({ title, content, tags, repo_context, file_context } = options.redactor.apply({
+          title,
+          content,
+          tags,
+          repo_context,
+          file_context,
+        }).fields);
+      }
+
+      // Bundle embeddings only fit if the text they were made from is unchanged
+      const chunks =
+        !input.reembed && record.chunks?.length && title === record.title && content === record.content
+          ? record.chunks
+          : await embedChunks(title, content, embeddings);
+      const snippets = await embedSnippets(title, content, embeddings);
+      const messages = parseTranscript(content)?.messages ?? null;
+
+      if (existing && input.on_conflict === "overwrite") {
+        const updated = await db.updateConversation(existing.id, userId, teamId, {
+          title,
+          summary: record.summary,
+          content,
+          embedding: chunks[0].embedding,
+          chunks,
+          snippets,
+          messages,
+          tags,
+          repo_context,
+          file_context,
+        });
+        if (!updated) {
+          throw new Error("Conversation exists and belongs to someone else");
+        }
+        ids.set(record.id, existing.id);
+        result.overwritten++;
+        continue;
+      }
+
+      const parentId = record.parent_id
+        ? ids.get(record.parent_id) ?? (input.preserve_ids ? record.parent_id : undefined)
+        : undefined;
+
+      const id = await db.saveConversation({
+        id: input.preserve_ids && !existing ? record.id : undefined,
+        user_id: userId,
+        team_id: teamId,
+        title,
+        summary: record.summary ?? undefined,
+        content,
+        embedding: chunks[0].embedding,
+        chunks,
+        snippets,
+        messages,
+        is_public: record.is_public,
+        tags,
+        repo_context: repo_context ?? undefined,
+        file_context,
+        parent_id: parentId,
+        thread_position: parentId ? record.thread_position : 0,
+        created_at: record.created_at,
+        updated_at: record.updated_at,
+      });
+      ids.set(record.id, id);
+      result.imported++;
+    } catch (error) {
+      result.failed.push({
+        id: record.id,
+        title: record.title,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  return result;
+}
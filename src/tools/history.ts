@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { createTwoFilesPatch } from "diff";
+import type { KnowledgeStore } from "../db/store.js";
+import type { EmbeddingProvider } from "../embeddings/provider.js";
+import type { ConversationVersion } from "../types.js";
+import { updateConversation } from "./save.js";
+
+export const GetConversationHistorySchema = z.object({
+  id: z.string().uuid().describe("The ID of the conversation"),
+});
+
+export type GetConversationHistoryInput = z.infer<typeof GetConversationHistorySchema>;
+
+/**
+ * List the revisions of a conversation (without their content)
+ */
+export async function getConversationHistory(
+  input: GetConversationHistoryInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<Omit<ConversationVersion, "content">[] | null> {
+  const versions = await db.getConversationHistory(input.id, teamId, userId);
+  if (!versions) return null;
+
+  return versions.map(({ content, ...version }) => version);
+}
+
+export const DiffConversationVersionsSchema = z.object({
+  id: z.string().uuid().describe("The ID of the conversation"),
+  from_version: z.number().int().min(1).describe("The older version number"),
+  to_version: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("The newer version number (defaults to the current version)"),
+});
+
+export type DiffConversationVersionsInput = z.infer<typeof DiffConversationVersionsSchema>;
+
+/**
+ * Render a revision as a single text document so one diff covers
+ * metadata and content
+ */
+function renderVersion(version: ConversationVersion): string {
+  return [
+    `title: ${version.title}`,
+    `tags: ${version.tags.join(", ")}`,
+    `repo: ${version.repo_context ?? ""}`,
+    `files: ${version.file_context.join(", ")}`,
+    "",
+    version.content,
+  ].join("\n");
+}
+
+export async function diffConversationVersions(
+  input: DiffConversationVersionsInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<{ from_version: number; to_version: number; diff: string } | null> {
+  const versions = await db.getConversationHistory(input.id, teamId, userId);
+  if (!versions) return null;
+
+  const from = versions.find((v) => v.version === input.from_version);
+  const to =
+    input.to_version === undefined
+      ? versions[versions.length - 1]
+      : versions.find((v) => v.version === input.to_version);
+
+  if (!from || !to) {
+    throw new Error(
+      `Version not found. Available versions: 1-${versions.length}`
+    );
+  }
+
+  const diff = createTwoFilesPatch(
+    `version ${from.version}`,
+    `version ${to.version}`,
+    renderVersion(from),
+    renderVersion(to),
+    from.created_at,
+    to.created_at
+  );
+
+  return { from_version: from.version, to_version: to.version, diff };
+}
+
+export const RestoreConversationVersionSchema = z.object({
+  id: z.string().uuid().describe("The ID of the conversation to restore"),
+  version: z.number().int().min(1).describe("The version number to restore"),
+});
+
+export type RestoreConversationVersionInput = z.infer<
+  typeof RestoreConversationVersionSchema
+>;
+
+/**
+ * Restore an earlier revision (owner only). The restore is itself an
+ * update, so the version being replaced stays in the history.
+ */
+export async function restoreConversationVersion(
+  input: RestoreConversationVersionInput,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
+  teamId: string,
+  userId: string
+): Promise<{ success: boolean; restored_version?: number }> {
+  const versions = await db.getConversationHistory(input.id, teamId, userId);
+  const target = versions?.find((v) => v.version === input.version);
+
+  if (!target) {
+    return { success: false };
+  }
+  if (target.is_current) {
+    return { success: true, restored_version: target.version };
+  }
+
+  const result = await updateConversation(
+    {
+      id: input.id,
+      title: target.title,
+      content: target.content,
+      // null clears the field, so a revision without one is reproduced exactly
+      summary: target.summary,
+      tags: target.tags,
+      repo_context: target.repo_context,
+      file_context: target.file_context,
+    },
+    db,
+    embeddings,
+    teamId,
+    userId
+  );
+
+  return { success: result.success, restored_version: target.version };
+}
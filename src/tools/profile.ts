@@ -0,0 +1,83 @@
+import { z } from "zod";
+import type { KnowledgeStore } from "../db/store.js";
+import type { Profile } from "../types.js";
+
+export const SetProfileSchema = z.object({
+  display_name: z
+    .string()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Name shown to teammates (required the first time)"),
+  email: z
+    .union([z.string().email(), z.literal("")])
+    .optional()
+    .describe("Contact email (empty string to clear)"),
+  handle: z
+    .string()
+    .max(100)
+    .optional()
+    .describe("Chat or GitHub handle, e.g. @jane (empty string to clear)"),
+  role: z
+    .string()
+    .max(100)
+    .optional()
+    .describe("Your role on the team, e.g. 'Frontend lead' (empty string to clear)"),
+});
+
+export type SetProfileInput = z.infer<typeof SetProfileSchema>;
+
+/**
+ * Create or update your own profile. Fields that are left out keep
+ * their current value.
+ */
+export async function setProfile(
+  input: SetProfileInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<Profile> {
+  const existing = await db.getProfile(userId, teamId);
+
+  const displayName = input.display_name ?? existing?.display_name;
+  if (!displayName) {
+    throw new Error("display_name is required when creating your profile");
+  }
+
+  const field = (value: string | undefined, current: string | null | undefined) =>
+    value === undefined ? current ?? null : value || null;
+
+  return db.saveProfile({
+    user_id: userId,
+    team_id: teamId,
+    display_name: displayName,
+    email: field(input.email, existing?.email),
+    handle: field(input.handle, existing?.handle),
+    role: field(input.role, existing?.role),
+  });
+}
+
+export const GetProfileSchema = z.object({
+  user_id: z
+    .string()
+    .optional()
+    .describe("A teammate's user ID (defaults to your own profile)"),
+});
+
+export type GetProfileInput = z.infer<typeof GetProfileSchema>;
+
+export async function getProfile(
+  input: GetProfileInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<Profile | null> {
+  return db.getProfile(input.user_id || userId, teamId);
+}
+
+/**
+ * Show the author's display name, falling back to their user ID
+ */
+export function formatAuthor(row: { user_id: string; author_name?: string | null }): string {
+  return row.author_name || row.user_id;
+}
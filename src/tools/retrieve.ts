@@ -1,20 +1,81 @@
 import { z } from "zod";
-import type { SupabaseDB } from "../db/supabase.js";
-import type { Conversation } from "../types.js";
+import type { KnowledgeStore } from "../db/store.js";
+import { normalizeTags } from "./tags.js";
+import type {
+  Conversation,
+  ConversationMessage,
+  ConversationThread,
+} from "../types.js";
 
 export const GetConversationSchema = z.object({
   id: z.string().uuid().describe("The ID of the conversation to retrieve"),
+  turns: z
+    .array(z.number().int().min(1))
+    .optional()
+    .describe("Only return these turns (1-based, numbered across the whole thread)"),
+  final_answer: z
+    .boolean()
+    .default(false)
+    .describe("Only return the last assistant reply in the thread"),
 });
 
 export type GetConversationInput = z.infer<typeof GetConversationSchema>;
 
+/**
+ * Get a conversation with its whole thread. Asking for a follow-up
+ * session returns the thread it belongs to.
+ */
 export async function getConversation(
   input: GetConversationInput,
-  db: SupabaseDB,
+  db: KnowledgeStore,
   teamId: string,
   userId: string
-): Promise<Conversation | null> {
-  return db.getConversation(input.id, teamId, userId);
+): Promise<ConversationThread | null> {
+  const conversation = await db.getConversation(input.id, teamId, userId);
+  if (!conversation) return null;
+
+  const root = conversation.parent_id
+    ? await db.getConversation(conversation.parent_id, teamId, userId)
+    : conversation;
+  if (!root) return null;
+
+  const sessions = await db.getThreadSessions(root.id, teamId, userId);
+  return { ...root, sessions };
+}
+
+export interface SelectedTurn extends ConversationMessage {
+  // 1-based, numbered across the whole thread
+  turn: number;
+  conversation_id: string;
+}
+
+/**
+ * Pick turns out of a thread instead of returning whole transcripts.
+ * Only entries saved from a recognised transcript have turns; returns
+ * null when none of the thread's entries do.
+ */
+export function selectTurns(
+  thread: ConversationThread,
+  selection: { turns?: number[]; final_answer?: boolean }
+): { total_turns: number; turns: SelectedTurn[] } | null {
+  const entries = [thread, ...thread.sessions].filter((entry) => entry.messages);
+  if (entries.length === 0) return null;
+
+  let turn = 0;
+  const all: SelectedTurn[] = entries.flatMap((entry) =>
+    entry.messages!.map((message) => ({ ...message, turn: ++turn, conversation_id: entry.id }))
+  );
+
+  let turns = all;
+  if (selection.final_answer) {
+    const last = all.filter((t) => t.role === "assistant").pop();
+    turns = last ? [last] : [];
+  } else if (selection.turns) {
+    const wanted = new Set(selection.turns);
+    turns = all.filter((t) => wanted.has(t.turn));
+  }
+
+  return { total_turns: all.length, turns };
 }
 
 export const ListConversationsSchema = z.object({
@@ -38,13 +99,14 @@ export type ListConversationsInput = z.infer<typeof ListConversationsSchema>;
 
 export async function listConversations(
   input: ListConversationsInput,
-  db: SupabaseDB,
+  db: KnowledgeStore,
   teamId: string,
   userId: string
 ): Promise<Conversation[]> {
   return db.listConversations(teamId, userId, {
     onlyMine: input.only_mine,
-    tags: input.tags,
+    // Filter on the spelling the tags were saved with
+    tags: await normalizeTags(input.tags, db, teamId),
     limit: input.limit,
   });
 }
@@ -57,7 +119,7 @@ export type DeleteConversationInput = z.infer<typeof DeleteConversationSchema>;
 
 export async function deleteConversation(
   input: DeleteConversationInput,
-  db: SupabaseDB,
+  db: KnowledgeStore,
   teamId: string,
   userId: string
 ): Promise<{ success: boolean }> {
@@ -76,7 +138,7 @@ export type UpdateVisibilityInput = z.infer<typeof UpdateVisibilitySchema>;
 
 export async function updateVisibility(
   input: UpdateVisibilityInput,
-  db: SupabaseDB,
+  db: KnowledgeStore,
   teamId: string,
   userId: string
 ): Promise<{ success: boolean }> {
@@ -1,8 +1,31 @@
 import { z } from "zod";
-import { readFileSync, existsSync, readdirSync } from "fs";
+import { readFileSync, existsSync, readdirSync, statSync } from "fs";
 import { join } from "path";
-import type { SupabaseDB } from "../db/supabase.js";
-import type { EmbeddingService } from "../embeddings/huggingface.js";
+import type { KnowledgeStore } from "../db/store.js";
+import type { EmbeddingProvider } from "../embeddings/provider.js";
+import { chunkContent } from "../embeddings/chunking.js";
+import { extractSnippets } from "../transcripts/snippets.js";
+import type { Redactor, RedactionReport } from "../redaction/redactor.js";
+import {
+  renderSummary,
+  type StructuredSummary,
+  type Summarizer,
+} from "../summaries/summarizer.js";
+import { ExtractiveSummarizer } from "../summaries/extractive.js";
+import {
+  parseTranscript,
+  isTranscriptFile,
+  type ParsedTranscript,
+} from "../transcripts/importer.js";
+import { formatAuthor } from "./profile.js";
+import { normalizeTags, suggestTags } from "./tags.js";
+import type {
+  Conversation,
+  ConversationChunkInsert,
+  ConversationMessage,
+  ConversationUpdate,
+  SnippetInsert,
+} from "../types.js";
 
 export const SaveConversationSchema = z.object({
   title: z.string().describe("A descriptive title for the conversation"),
@@ -16,7 +39,13 @@ export const SaveConversationSchema = z.object({
     .string()
     .optional()
     .describe(
-      "Optional: Path to an exported conversation markdown file. If provided, content will be read from this file instead."
+      "Optional: Path to an exported conversation file (Cursor markdown, ChatGPT or Claude conversations.json, Copilot chat.json, or a .jsonl message log). If provided, content will be read from this file instead."
+    ),
+  format: z
+    .enum(["auto", "cursor", "markdown", "chatgpt", "claude", "copilot", "jsonl"])
+    .default("auto")
+    .describe(
+      "Format of the export in content or file_path. auto (default) detects it; name it when detection picks the wrong one"
     ),
   is_public: z
     .boolean()
@@ -41,19 +70,77 @@ export const SaveConversationSchema = z.object({
   generate_summary: z
     .boolean()
     .default(true)
-    .describe("Whether to auto-generate a summary using AI"),
+    .describe(
+      "Whether to generate a structured summary (problem, root cause, solution, key decisions, files)"
+    ),
   auto_find_export: z
     .boolean()
     .default(true)
     .describe(
-      "Automatically search for exported conversation .md files in the workspace"
+      "Automatically search for exported conversation files in the workspace"
+    ),
+  parent_id: z
+    .string()
+    .uuid()
+    .optional()
+    .describe(
+      "Optional: ID of an existing conversation this session continues. The new session is appended to that conversation's thread."
+    ),
+  on_duplicate: z
+    .enum(["ask", "skip", "merge", "force"])
+    .default("ask")
+    .describe(
+      "What to do when a near-duplicate already exists: ask (return the duplicates without saving), skip (keep the existing entry), merge (fold into your existing entry), force (save anyway)"
     ),
 });
 
 export type SaveConversationInput = z.infer<typeof SaveConversationSchema>;
 
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.92;
+
+// Workspace files larger than this aren't read when looking for an export
+const MAX_EXPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+export interface DuplicateMatch {
+  id: string;
+  title: string;
+  author: string;
+  author_id: string;
+  similarity: number;
+  created_at: string;
+}
+
+export interface SaveConversationOptions {
+  // Workspace to search for exported conversation files
+  workspacePath?: string;
+  duplicateThreshold?: number;
+  // Applied to the title and content before anything is embedded or stored
+  redactor?: Redactor;
+  // Writes the structured summary; the extractive summarizer when unset
+  summarizer?: Summarizer;
+}
+
+export interface SaveConversationResult {
+  // "duplicate": not saved because near-duplicates exist and on_duplicate is "ask"
+  status: "saved" | "duplicate" | "skipped" | "merged";
+  // ID of the saved entry, or of the existing entry when skipped/merged
+  id: string | null;
+  summary: string | null;
+  // Tags as saved, normalized against the team's vocabulary
+  tags?: string[];
+  // Tags the team uses that fit the conversation but weren't given
+  suggested_tags?: string[];
+  warnings?: string[];
+  source?: string;
+  thread_id?: string;
+  thread_position?: number;
+  duplicates?: DuplicateMatch[];
+  redactions?: RedactionReport;
+}
+
 /**
- * Search for recently exported conversation markdown files in the workspace
+ * Search for recently exported conversation files from any supported tool
+ * in the workspace
  */
 function findRecentExportedConversation(
   workspacePath: string,
@@ -61,26 +148,21 @@ function findRecentExportedConversation(
 ): string | null {
   try {
     const files = readdirSync(workspacePath);
-    const mdFiles = files.filter(
-      (f) =>
-        f.startsWith("cursor_") && f.endsWith(".md") && !f.includes("jstag")
+    const exportFiles = files.filter(
+      (f) => isTranscriptFile(f) && !f.includes("jstag")
     );
 
-    if (mdFiles.length === 0) return null;
+    if (exportFiles.length === 0) return null;
 
     // Sort by modification time, most recent first
-    const sortedFiles = mdFiles
+    const sortedFiles = exportFiles
       .map((f) => {
         const fullPath = join(workspacePath, f);
-        return {
-          path: fullPath,
-          name: f,
-          mtime: existsSync(fullPath)
-            ? readFileSync(fullPath, "utf-8").length
-            : 0,
-        };
+        const stats = statSync(fullPath);
+        return { path: fullPath, name: f, stats };
       })
-      .sort((a, b) => b.mtime - a.mtime);
+      .filter(({ stats }) => stats.isFile() && stats.size <= MAX_EXPORT_FILE_SIZE)
+      .sort((a, b) => b.stats.mtimeMs - a.stats.mtimeMs);
 
     // If we have a title hint, try to find a matching file
     if (titleHint) {
@@ -102,11 +184,17 @@ function findRecentExportedConversation(
 }
 
 /**
- * Validate that conversation content is complete
+ * Validate that conversation content is complete. Parsed transcripts are
+ * checked turn by turn; anything else falls back to text heuristics.
  */
 function validateContent(
-  content: string
+  content: string,
+  messages: ConversationMessage[] | null
 ): { isValid: boolean; warnings: string[] } {
+  if (messages) {
+    return validateMessages(messages);
+  }
+
   const warnings: string[] = [];
   const lines = content.split("\n");
 
@@ -141,21 +229,95 @@ function validateContent(
   };
 }
 
+function validateMessages(
+  messages: ConversationMessage[]
+): { isValid: boolean; warnings: string[] } {
+  const warnings: string[] = [];
+  const last = messages[messages.length - 1];
+
+  if (!messages.some((m) => m.role === "assistant")) {
+    warnings.push(
+      "The transcript has no assistant replies. Make sure you're saving the complete conversation."
+    );
+  } else if (last.role === "user") {
+    warnings.push(
+      "The transcript ends with a question that has no answer. The export may be incomplete."
+    );
+  }
+
+  // Replies that talk about code usually quote some
+  const mentionsCode = messages.some(
+    (m) => m.role === "assistant" && /\b(function|implementation|snippet)\b/.test(m.content)
+  );
+  if (mentionsCode && messages.every((m) => m.code_blocks.length === 0)) {
+    warnings.push(
+      "Replies mention code but the transcript contains no code blocks. The conversation may be incomplete."
+    );
+  }
+
+  return {
+    isValid: warnings.length === 0,
+    warnings,
+  };
+}
+
+/**
+ * Split content into chunks and embed each one, prefixed with the title for context
+ */
+export async function embedChunks(
+  title: string,
+  content: string,
+  embeddings: EmbeddingProvider
+): Promise<ConversationChunkInsert[]> {
+  const chunks: ConversationChunkInsert[] = [];
+  for (const chunk of chunkContent(content)) {
+    chunks.push({
+      chunk_index: chunk.index,
+      content: chunk.content,
+      embedding: await embeddings.generateEmbedding(`${title}\n\n${chunk.content}`),
+    });
+  }
+  return chunks;
+}
+
+/**
+ * Extract the code blocks and embed each one with its explanation, so
+ * snippets can be searched on their own
+ */
+export async function embedSnippets(
+  title: string,
+  content: string,
+  embeddings: EmbeddingProvider
+): Promise<SnippetInsert[]> {
+  const snippets: SnippetInsert[] = [];
+  for (const snippet of extractSnippets(content)) {
+    const text = [title, snippet.explanation, snippet.code].filter(Boolean).join("\n\n");
+    snippets.push({ ...snippet, embedding: await embeddings.generateEmbedding(text) });
+  }
+  return snippets;
+}
+
 export async function saveConversation(
   input: SaveConversationInput,
-  db: SupabaseDB,
-  embeddings: EmbeddingService,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
   teamId: string,
   userId: string,
-  workspacePath?: string
-): Promise<{
-  id: string;
-  summary: string | null;
-  warnings?: string[];
-  source?: string;
-}> {
+  options: SaveConversationOptions = {}
+): Promise<SaveConversationResult> {
+  const {
+    workspacePath,
+    duplicateThreshold = DEFAULT_DUPLICATE_THRESHOLD,
+    redactor,
+    summarizer = new ExtractiveSummarizer(),
+  } = options;
+  const thread = input.parent_id
+    ? await resolveThread(input.parent_id, db, teamId, userId)
+    : null;
+
   let content = input.content || "";
   let source = "direct";
+  let transcript: ParsedTranscript | null = null;
 
   // Priority 1: If file_path is provided, read from that file
   if (input.file_path) {
@@ -172,18 +334,24 @@ export async function saveConversation(
       input.title
     );
     if (foundFile) {
-      const autoContent = readFileSync(foundFile, "utf-8");
+      // An export with many conversations only counts when one has this title
+      const found = parseTranscript(readFileSync(foundFile, "utf-8"), {
+        titleHint: input.title,
+        requireTitleMatch: true,
+      });
       // Only use auto-found file if it's substantially larger than provided content
-      if (autoContent.length > content.length * 1.5) {
-        content = autoContent;
-        source = `auto-detected file: ${foundFile}`;
+      if (found && found.content.length > content.length * 1.5) {
+        transcript = found;
+        source = `auto-detected ${found.format} file: ${foundFile}`;
       }
     }
   }
 
-  // Validate content completeness
-  const validation = validateContent(content);
-  const warnings: string[] = [...validation.warnings];
+  // Normalise chat exports; JSON exports are stored as a markdown rendering
+  transcript ??= parseTranscript(content, { format: input.format, titleHint: input.title });
+  if (transcript) {
+    content = transcript.content;
+  }
 
   if (!content || content.trim().length === 0) {
     throw new Error(
@@ -191,35 +359,410 @@ export async function saveConversation(
     );
   }
 
-  // Generate embedding for the conversation
-  const embedding = await embeddings.generateEmbedding(
-    `${input.title}\n\n${content}`
+  // Validate content completeness
+  const validation = validateContent(content, transcript?.messages ?? null);
+  const warnings: string[] = [...validation.warnings];
+
+  // Redact secrets and personal data before anything leaves the machine
+  let title = input.title;
+  let redactions: RedactionReport | undefined;
+  if (redactor) {
+    const redacted = redactor.apply({
+      title,
+      content,
+      tags: input.tags,
+      repo_context: input.repo_context,
+      file_context: input.file_context,
+    });
+    ({ title, content } = redacted.fields);
+    input = {
+      ...input,
+      tags: redacted.fields.tags,
+      repo_context: redacted.fields.repo_context,
+      file_context: redacted.fields.file_context,
+    };
+    redactions = redacted.report ?? undefined;
+    if (redactions?.mode === "warn") {
+      warnings.push(
+        `Content appears to contain sensitive data (${Object.keys(redactions.categories).join(", ")}). It was saved as-is.`
+      );
+    }
+  }
+
+  const tags = (await normalizeTags(input.tags, db, teamId)) ?? [];
+
+  // Generate one embedding per chunk so the whole conversation is searchable
+  const chunks = await embedChunks(title, content, embeddings);
+  // Turns must match the stored content, so re-parse if redaction changed it
+  const messages =
+    content === transcript?.content
+      ? transcript.messages
+      : parseTranscript(content)?.messages ?? null;
+
+  // Look for near-duplicates among the team's and the author's own entries
+  const duplicates =
+    input.on_duplicate === "force"
+      ? []
+      : await findDuplicates(
+          chunks[0].embedding,
+          db,
+          teamId,
+          userId,
+          duplicateThreshold,
+          thread?.root.id
+        );
+
+  if (duplicates.length > 0) {
+    const base = {
+      summary: null,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      source,
+      duplicates,
+      redactions,
+    };
+
+    if (input.on_duplicate === "skip") {
+      return { ...base, status: "skipped", id: duplicates[0].id };
+    }
+
+    if (input.on_duplicate === "merge") {
+      // Only your own entries can be merged into
+      const target = duplicates.find((d) => d.author_id === userId);
+      if (target) {
+        const merged = await mergeIntoExisting(
+          target.id,
+          { ...input, tags },
+          content,
+          db,
+          embeddings,
+          teamId,
+          userId,
+          summarizer
+        );
+        return { ...base, status: "merged", id: target.id, summary: merged.summary ?? null };
+      }
+    }
+
+    return { ...base, status: "duplicate", id: null };
+  }
+
+  const snippets = await embedSnippets(title, content, embeddings);
+
+  // Suggest before saving, so the conversation doesn't count as its own neighbour
+  const suggestedTags = await suggestTags(
+    { title, content, embedding: chunks[0].embedding, tags },
+    db,
+    teamId,
+    userId
   );
 
   // Generate summary if requested
   let summary: string | null = null;
   if (input.generate_summary) {
-    summary = await embeddings.generateSummary(content);
+    summary = renderSummary(
+      await summarizer.summarize({
+        title,
+        content,
+        messages,
+        fileContext: input.file_context ?? [],
+      })
+    );
   }
 
   // Save to database
   const id = await db.saveConversation({
     user_id: userId,
     team_id: teamId,
-    title: input.title,
+    title,
     summary: summary ?? undefined,
     content,
-    embedding,
-    is_public: input.is_public,
-    tags: input.tags,
-    repo_context: input.repo_context,
+    // The first chunk carries the title and opening, like the old whole-conversation vector
+    embedding: chunks[0].embedding,
+    chunks,
+    snippets,
+    messages,
+    // Sessions share the visibility of their thread
+    is_public: thread ? thread.root.is_public : input.is_public,
+    tags,
+    repo_context: input.repo_context ?? thread?.root.repo_context ?? undefined,
     file_context: input.file_context,
+    parent_id: thread?.root.id,
+    thread_position: thread?.position,
   });
 
   return {
+    status: "saved",
     id,
     summary,
+    tags,
+    suggested_tags: suggestedTags.length > 0 ? suggestedTags : undefined,
     warnings: warnings.length > 0 ? warnings : undefined,
     source,
+    thread_id: thread?.root.id,
+    thread_position: thread?.position,
+    redactions,
+  };
+}
+
+/**
+ * Find existing entries that are nearly identical to a new conversation.
+ * Searches public team entries and the author's private ones; the thread
+ * being continued (if any) doesn't count as a duplicate.
+ */
+async function findDuplicates(
+  embedding: number[],
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string,
+  threshold: number,
+  threadId?: string
+): Promise<DuplicateMatch[]> {
+  const matches = await db.searchSimilar(embedding, teamId, userId, 5, true, {
+    minSimilarity: threshold,
+  });
+
+  return matches
+    .filter((m) => m.id !== threadId)
+    .map((m) => ({
+      id: m.id,
+      title: m.title,
+      author: formatAuthor(m),
+      author_id: m.user_id,
+      similarity: m.similarity ?? 0,
+      created_at: m.created_at,
+    }));
+}
+
+/**
+ * Fold a near-duplicate save into an existing entry: keep the more complete
+ * content and combine tags and files. The previous state stays in the history.
+ */
+async function mergeIntoExisting(
+  targetId: string,
+  input: SaveConversationInput,
+  content: string,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
+  teamId: string,
+  userId: string,
+  summarizer: Summarizer
+) {
+  const existing = await db.getConversation(targetId, teamId, userId);
+  if (!existing) {
+    throw new Error(`Conversation ${targetId} disappeared while merging.`);
+  }
+
+  return updateConversation(
+    {
+      id: targetId,
+      content: content.length > existing.content.length ? content : undefined,
+      tags: [...new Set([...existing.tags, ...(input.tags || [])])],
+      file_context: [
+        ...new Set([...existing.file_context, ...(input.file_context || [])]),
+      ],
+      repo_context: existing.repo_context ?? input.repo_context,
+    },
+    db,
+    embeddings,
+    teamId,
+    userId,
+    undefined,
+    summarizer
+  );
+}
+
+/**
+ * Find the thread root a new session should be appended to, and its position.
+ * Only the owner of a thread can continue it.
+ */
+async function resolveThread(
+  parentId: string,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<{ root: Conversation; position: number }> {
+  const parent = await db.getConversation(parentId, teamId, userId);
+  const root =
+    parent && parent.parent_id
+      ? await db.getConversation(parent.parent_id, teamId, userId)
+      : parent;
+
+  if (!root || root.user_id !== userId) {
+    throw new Error(
+      `Conversation ${parentId} not found or you don't own it, so it can't be continued.`
+    );
+  }
+
+  const sessions = await db.getThreadSessions(root.id, teamId, userId);
+  const position = sessions.reduce((max, s) => Math.max(max, s.thread_position), 0) + 1;
+
+  return { root, position };
+}
+
+export const UpdateConversationSchema = z.object({
+  id: z.string().uuid().describe("The ID of the conversation to update"),
+  title: z.string().optional().describe("New title"),
+  content: z
+    .string()
+    .optional()
+    .describe("Replacement for the full conversation content"),
+  append_content: z
+    .string()
+    .optional()
+    .describe("Follow-up content to append to the end of the existing content"),
+  summary: z
+    .string()
+    .nullable()
+    .optional()
+    .describe(
+      "New summary, or null to clear it. If omitted and the content changes, a summary is regenerated"
+    ),
+  tags: z.array(z.string()).optional().describe("Replacement tag list"),
+  repo_context: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("The repository or project this conversation is about, or null to clear it"),
+  file_context: z
+    .array(z.string())
+    .optional()
+    .describe("Replacement list of file paths discussed in this conversation"),
+});
+
+export type UpdateConversationInput = z.infer<typeof UpdateConversationSchema>;
+
+// Fields reported back as updated; embeddings, snippets and parsed messages are internal
+const REPORTED_UPDATE_FIELDS = [
+  "title",
+  "content",
+  "summary",
+  "tags",
+  "repo_context",
+  "file_context",
+] as const;
+
+export async function updateConversation(
+  input: UpdateConversationInput,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
+  teamId: string,
+  userId: string,
+  redactor?: Redactor,
+  summarizer: Summarizer = new ExtractiveSummarizer()
+): Promise<{
+  success: boolean;
+  updated_fields: string[];
+  reembedded: boolean;
+  summary?: string | null;
+  redactions?: RedactionReport;
+}> {
+  const existing = await db.getConversation(input.id, teamId, userId);
+  if (!existing || existing.user_id !== userId) {
+    return { success: false, updated_fields: [], reembedded: false };
+  }
+
+  // New text goes through the same redaction as a fresh save
+  let redactions: RedactionReport | undefined;
+  if (redactor) {
+    const redacted = redactor.apply({
+      title: input.title,
+      content: input.content,
+      append_content: input.append_content,
+      summary: input.summary,
+      tags: input.tags,
+      repo_context: input.repo_context,
+      file_context: input.file_context,
+    });
+    input = { ...input, ...redacted.fields };
+    redactions = redacted.report ?? undefined;
+  }
+
+  const update: ConversationUpdate = {
+    title: input.title,
+    summary: input.summary,
+    tags: await normalizeTags(input.tags, db, teamId),
+    repo_context: input.repo_context,
+    file_context: input.file_context,
+  };
+
+  let content = input.content ?? existing.content;
+  if (input.append_content) {
+    content = `${content}\n\n---\n\n${input.append_content}`;
+  }
+  const contentChanged = content !== existing.content;
+  const titleChanged = input.title !== undefined && input.title !== existing.title;
+
+  if (contentChanged) {
+    if (content.trim().length === 0) {
+      throw new Error("Conversation content cannot be empty.");
+    }
+    update.content = content;
+    update.messages = parseTranscript(content)?.messages ?? null;
+
+    // Keep the summary in step with the content unless one was given
+    if (input.summary === undefined && existing.summary !== null) {
+      update.summary = renderSummary(
+        await summarizer.summarize({
+          title: input.title ?? existing.title,
+          content,
+          messages: update.messages,
+          fileContext: input.file_context ?? existing.file_context,
+        })
+      );
+    }
+  }
+
+  // The title is part of every chunk embedding, so either change means re-embedding
+  if (contentChanged || titleChanged) {
+    const chunks = await embedChunks(input.title ?? existing.title, content, embeddings);
+    update.embedding = chunks[0].embedding;
+    update.chunks = chunks;
+    update.snippets = await embedSnippets(input.title ?? existing.title, content, embeddings);
+  }
+
+  const success = await db.updateConversation(input.id, userId, teamId, update);
+
+  return {
+    success,
+    updated_fields: REPORTED_UPDATE_FIELDS.filter((field) => update[field] !== undefined),
+    reembedded: update.chunks !== undefined,
+    summary: update.summary,
+    redactions,
   };
 }
+
+export const RegenerateSummarySchema = z.object({
+  id: z.string().uuid().describe("The ID of the conversation to summarise again"),
+});
+
+export type RegenerateSummaryInput = z.infer<typeof RegenerateSummarySchema>;
+
+/**
+ * Replace the summary of one of your conversations with a fresh structured
+ * one, e.g. for entries saved before summaries were structured. Returns null
+ * when the conversation isn't found or isn't yours.
+ */
+export async function regenerateSummary(
+  input: RegenerateSummaryInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string,
+  summarizer: Summarizer
+): Promise<{ summary: StructuredSummary; previous: string | null } | null> {
+  const existing = await db.getConversation(input.id, teamId, userId);
+  if (!existing || existing.user_id !== userId) {
+    return null;
+  }
+
+  const summary = await summarizer.summarize({
+    title: existing.title,
+    content: existing.content,
+    messages: existing.messages ?? null,
+    fileContext: existing.file_context,
+  });
+
+  const success = await db.updateConversation(input.id, userId, teamId, {
+    summary: renderSummary(summary),
+  });
+  return success ? { summary, previous: existing.summary } : null;
+}
@@ -1,7 +1,15 @@
 import { z } from "zod";
-import type { SupabaseDB } from "../db/supabase.js";
-import type { EmbeddingService } from "../embeddings/huggingface.js";
-import type { SearchResult } from "../types.js";
+import type { KnowledgeStore } from "../db/store.js";
+import type { EmbeddingProvider } from "../embeddings/provider.js";
+import { normalizeLanguage } from "../transcripts/snippets.js";
+import { normalizeTags } from "./tags.js";
+import type {
+  SearchFilters,
+  SearchMode,
+  SearchResult,
+  SnippetSearchResult,
+  TeamSearchResult,
+} from "../types.js";
 
 export const SearchConversationsSchema = z.object({
   query: z
@@ -17,19 +25,125 @@ export const SearchConversationsSchema = z.object({
     .boolean()
     .default(false)
     .describe("Include your own private conversations in search results"),
+  mode: z
+    .enum(["vector", "keyword", "hybrid"])
+    .default("hybrid")
+    .describe(
+      "vector: semantic similarity, keyword: exact terms (identifiers, error codes), hybrid: both combined with rank fusion"
+    ),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Only return conversations with these tags"),
+  tags_match: z
+    .enum(["any", "all"])
+    .default("any")
+    .describe("Whether a conversation needs any or all of the given tags"),
+  repo_context: z
+    .string()
+    .optional()
+    .describe("Only return conversations about this repository or project"),
+  author_id: z
+    .string()
+    .optional()
+    .describe("Only return conversations saved by this user ID"),
+  created_after: z
+    .string()
+    .optional()
+    .describe("Only return conversations created on or after this ISO date/time"),
+  created_before: z
+    .string()
+    .optional()
+    .describe("Only return conversations created on or before this ISO date/time"),
+  file_path_prefix: z
+    .string()
+    .optional()
+    .describe("Only return conversations that discussed a file under this path (e.g. 'src/auth/')"),
+  min_similarity: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Minimum cosine similarity for semantic matches (default 0.7)"),
+  all_teams: z
+    .boolean()
+    .default(false)
+    .describe("Search every team you belong to and label each result with its team"),
 });
 
+/**
+ * Format a similarity score as a percentage (null for keyword-only matches)
+ */
+export function formatSimilarity(similarity: number | null): string | null {
+  return similarity === null ? null : `${(similarity * 100).toFixed(1)}%`;
+}
+
+/**
+ * Shorten a matched chunk for display in search results
+ */
+export function excerptPassage(
+  passage: string | null,
+  maxLength: number = 500
+): string | null {
+  if (!passage || passage.length <= maxLength) return passage;
+  return passage.slice(0, maxLength) + "...";
+}
+
 export type SearchConversationsInput = z.infer<typeof SearchConversationsSchema>;
 
-export async function searchConversations(
+/**
+ * Collect the filter arguments of a search into store filters
+ */
+function toSearchFilters(input: SearchConversationsInput): SearchFilters {
+  return {
+    tags: input.tags,
+    tagsMatch: input.tags_match,
+    repoContext: input.repo_context,
+    authorId: input.author_id,
+    createdAfter: input.created_after,
+    createdBefore: input.created_before,
+    filePathPrefix: input.file_path_prefix,
+    minSimilarity: input.min_similarity,
+  };
+}
+
+/**
+ * Run a search in one team. The query embedding is null for keyword search.
+ */
+async function searchTeam(
   input: SearchConversationsInput,
-  db: SupabaseDB,
-  embeddings: EmbeddingService,
+  db: KnowledgeStore,
+  queryEmbedding: number[] | null,
   teamId: string,
   userId: string
 ): Promise<SearchResult[]> {
-  // Generate embedding for the search query
-  const queryEmbedding = await embeddings.generateEmbedding(input.query);
+  const mode: SearchMode = input.mode;
+  const filters = toSearchFilters(input);
+  filters.tags = await normalizeTags(filters.tags, db, teamId);
+
+  // Keyword search doesn't need an embedding
+  if (mode === "keyword" || !queryEmbedding) {
+    return db.searchKeyword(
+      input.query,
+      teamId,
+      userId,
+      input.limit,
+      input.include_private,
+      filters
+    );
+  }
+
+  if (mode === "hybrid") {
+    return db.searchHybrid(
+      input.query,
+      queryEmbedding,
+      teamId,
+      userId,
+      input.limit,
+      input.include_private,
+      filters
+    );
+  }
 
   // Search for similar conversations
   const results = await db.searchSimilar(
@@ -37,12 +151,54 @@ export async function searchConversations(
     teamId,
     userId,
     input.limit,
-    input.include_private
+    input.include_private,
+    filters
   );
 
   return results;
 }
 
+export async function searchConversations(
+  input: SearchConversationsInput,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
+  teamId: string,
+  userId: string
+): Promise<SearchResult[]> {
+  // Generate embedding for the search query
+  const queryEmbedding =
+    input.mode === "keyword" ? null : await embeddings.generateEmbedding(input.query);
+
+  return searchTeam(input, db, queryEmbedding, teamId, userId);
+}
+
+/**
+ * Search every team the user belongs to and merge the results by score.
+ * Each team is searched with the same mode, so their scores are comparable.
+ */
+export async function searchAllTeams(
+  input: SearchConversationsInput,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
+  teamIds: string[],
+  userId: string
+): Promise<TeamSearchResult[]> {
+  const queryEmbedding =
+    input.mode === "keyword" ? null : await embeddings.generateEmbedding(input.query);
+
+  const perTeam = await Promise.all(
+    teamIds.map(async (teamId) => {
+      const results = await searchTeam(input, db, queryEmbedding, teamId, userId);
+      return results.map((r) => ({ ...r, team_id: teamId }));
+    })
+  );
+
+  return perTeam
+    .flat()
+    .sort((a, b) => b.score - a.score)
+    .slice(0, input.limit);
+}
+
 export const FindRelatedSchema = z.object({
   context: z
     .string()
@@ -53,8 +209,8 @@ export type FindRelatedInput = z.infer<typeof FindRelatedSchema>;
 
 export async function findRelatedConversations(
   input: FindRelatedInput,
-  db: SupabaseDB,
-  embeddings: EmbeddingService,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
   teamId: string,
   userId: string
 ): Promise<SearchResult[]> {
@@ -73,3 +229,50 @@ export async function findRelatedConversations(
   return results;
 }
 
+export const SearchSnippetsSchema = z.object({
+  query: z
+    .string()
+    .describe("What the code should do, e.g. 'retry a fetch with exponential backoff'"),
+  language: z
+    .string()
+    .optional()
+    .describe("Only return snippets in this language, e.g. 'typescript', 'sql', 'bash'"),
+  limit: z
+    .number()
+    .min(1)
+    .max(20)
+    .default(5)
+    .describe("Maximum number of snippets to return"),
+  include_private: z
+    .boolean()
+    .default(false)
+    .describe("Include snippets from your own private conversations"),
+  min_similarity: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Minimum cosine similarity (default 0.5)"),
+});
+
+export type SearchSnippetsInput = z.infer<typeof SearchSnippetsSchema>;
+
+/**
+ * Search the code blocks extracted from saved conversations
+ */
+export async function searchSnippets(
+  input: SearchSnippetsInput,
+  db: KnowledgeStore,
+  embeddings: EmbeddingProvider,
+  teamId: string,
+  userId: string
+): Promise<SnippetSearchResult[]> {
+  const queryEmbedding = await embeddings.generateEmbedding(input.query);
+
+  return db.searchSnippets(queryEmbedding, teamId, userId, {
+    language: normalizeLanguage(input.language) ?? undefined,
+    limit: input.limit,
+    includePrivate: input.include_private,
+    minSimilarity: input.min_similarity,
+  });
+}
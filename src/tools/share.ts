@@ -0,0 +1,115 @@
+import { z } from "zod";
+import type { KnowledgeStore } from "../db/store.js";
+import type { ConversationShare, Group } from "../types.js";
+
+export const ShareConversationSchema = z.object({
+  id: z.string().uuid().describe("The ID of the conversation to share"),
+  users: z
+    .array(z.string())
+    .optional()
+    .describe("User IDs of teammates to share with"),
+  groups: z
+    .array(z.string())
+    .optional()
+    .describe("Names of groups to share with, e.g. 'payments-oncall'"),
+  action: z
+    .enum(["share", "unshare"])
+    .default("share")
+    .describe("share (default) grants access; unshare revokes it"),
+});
+
+export type ShareConversationInput = z.infer<typeof ShareConversationSchema>;
+
+/**
+ * Share a conversation with specific people or groups, or revoke access
+ * (owner only). Shares apply to the whole thread.
+ */
+export async function shareConversation(
+  input: ShareConversationInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<{
+  success: boolean;
+  thread_id?: string;
+  is_public?: boolean;
+  shares?: ConversationShare[];
+}> {
+  const shares: ConversationShare[] = [
+    ...(input.users || []).map((principal) => ({ principal_type: "user" as const, principal })),
+    ...(input.groups || []).map((principal) => ({ principal_type: "group" as const, principal })),
+  ];
+  if (shares.length === 0) {
+    throw new Error("Provide at least one user or group");
+  }
+
+  const conversation = await db.getConversation(input.id, teamId, userId);
+  if (!conversation || conversation.user_id !== userId) {
+    return { success: false };
+  }
+  const threadId = conversation.parent_id || conversation.id;
+
+  if (input.action === "share") {
+    for (const name of input.groups || []) {
+      if (!(await db.getGroup(name, teamId))) {
+        throw new Error(`Group not found: ${name}. Create it with define_group first.`);
+      }
+    }
+  }
+
+  const success =
+    input.action === "share"
+      ? await db.shareConversation(threadId, userId, teamId, shares)
+      : await db.unshareConversation(threadId, userId, teamId, shares);
+  if (!success) {
+    return { success: false };
+  }
+
+  return {
+    success: true,
+    thread_id: threadId,
+    is_public: conversation.is_public,
+    shares: (await db.getConversationShares(threadId, userId, teamId)) || [],
+  };
+}
+
+export const DefineGroupSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9._-]*$/, "Use lowercase letters, digits, '.', '_' or '-'")
+    .max(64)
+    .describe("Group name, e.g. 'payments-oncall'"),
+  description: z.string().max(200).optional().describe("What the group is for"),
+  members: z
+    .array(z.string())
+    .describe("User IDs of the members (replaces the current member list)"),
+});
+
+export type DefineGroupInput = z.infer<typeof DefineGroupSchema>;
+
+/**
+ * Create a group, or update one you created
+ */
+export async function defineGroup(
+  input: DefineGroupInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<Group> {
+  const existing = await db.getGroup(input.name, teamId);
+  if (existing && existing.created_by !== userId) {
+    throw new Error(`Only the group's creator (${existing.created_by}) can change "${input.name}"`);
+  }
+
+  return db.saveGroup({
+    team_id: teamId,
+    name: input.name,
+    description: input.description ?? existing?.description ?? null,
+    created_by: userId,
+    members: [...new Set(input.members)],
+  });
+}
+
+export async function listGroups(db: KnowledgeStore, teamId: string): Promise<Group[]> {
+  return db.listGroups(teamId);
+}
@@ -0,0 +1,281 @@
+import { z } from "zod";
+import type { KnowledgeStore } from "../db/store.js";
+import { normalizeTag } from "../db/tags.js";
+import type { TagDefinition } from "../types.js";
+
+// Most tags suggested for one conversation
+const MAX_SUGGESTIONS = 5;
+// Score a tag needs before it is suggested
+const MIN_SUGGESTION_SCORE = 0.5;
+// How close a conversation has to be for its tags to count
+const NEIGHBOUR_SIMILARITY = 0.6;
+const NEIGHBOURS = 10;
+
+/**
+ * Every name and alias of the vocabulary, mapped to the tag it stands for
+ */
+function aliasMap(vocabulary: TagDefinition[]): Map<string, string> {
+  const aliases = new Map<string, string>();
+  for (const tag of vocabulary) {
+    for (const alias of tag.aliases) aliases.set(alias, tag.name);
+    aliases.set(tag.name, tag.name);
+  }
+  return aliases;
+}
+
+/**
+ * Normalize tags and map aliases to the team's vocabulary, dropping duplicates
+ */
+export async function normalizeTags(
+  tags: string[] | undefined,
+  db: KnowledgeStore,
+  teamId: string
+): Promise<string[] | undefined> {
+  if (!tags || tags.length === 0) return tags;
+
+  const aliases = aliasMap(await db.listTags(teamId));
+  return [
+    ...new Set(
+      tags
+        .map(normalizeTag)
+        .filter((tag) => tag.length > 0)
+        .map((tag) => aliases.get(tag) ?? tag)
+    ),
+  ];
+}
+
+/**
+ * How often a tag or one of its aliases is mentioned: a mention in the title
+ * counts fully, mentions in the content a little each
+ */
+function mentionScore(terms: string[], title: string, content: string): number {
+  let score = 0;
+  for (const term of terms) {
+    // "rate-limiting" also matches "rate limiting"
+    const phrase = term
+      .split("-")
+      .map((word) => word.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&"))
+      .join("[\\s_-]");
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${phrase}(?![\\p{L}\\p{N}])`, "gu");
+
+    if (pattern.test(title)) score += 1;
+    score += Math.min(content.match(pattern)?.length ?? 0, 3) * 0.2;
+  }
+  return score;
+}
+
+/**
+ * Suggest tags the team already uses for a conversation about to be saved:
+ * tags (or their aliases) mentioned in it, and tags on similar conversations.
+ * Tags it already has aren't suggested.
+ */
+export async function suggestTags(
+  conversation: { title: string; content: string; embedding: number[]; tags: string[] },
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<string[]> {
+  const [vocabulary, usage, neighbours] = await Promise.all([
+    db.listTags(teamId),
+    db.countTags(teamId, userId),
+    db.searchSimilar(conversation.embedding, teamId, userId, NEIGHBOURS, true, {
+      minSimilarity: NEIGHBOUR_SIMILARITY,
+    }),
+  ]);
+  const aliases = aliasMap(vocabulary);
+  const canonical = (tag: string) => aliases.get(normalizeTag(tag)) ?? normalizeTag(tag);
+
+  // Every tag in use or in the vocabulary, with the spellings that mean it
+  const terms = new Map<string, Set<string>>();
+  const addTerm = (tag: string, term: string) => {
+    if (!term) return;
+    terms.set(tag, (terms.get(tag) ?? new Set()).add(term));
+  };
+  for (const tag of vocabulary) {
+    addTerm(tag.name, tag.name);
+    tag.aliases.forEach((alias) => addTerm(tag.name, alias));
+  }
+  for (const { tag } of usage) {
+    addTerm(canonical(tag), normalizeTag(tag));
+  }
+
+  const scores = new Map<string, number>();
+  const title = conversation.title.toLowerCase();
+  const content = conversation.content.toLowerCase();
+  for (const [tag, spellings] of terms) {
+    const score = mentionScore([...spellings], title, content);
+    if (score > 0) scores.set(tag, score);
+  }
+  for (const neighbour of neighbours) {
+    for (const tag of new Set(neighbour.tags.map(canonical))) {
+      scores.set(tag, (scores.get(tag) ?? 0) + (neighbour.similarity ?? 0));
+    }
+  }
+
+  const existing = new Set(conversation.tags);
+  return [...scores]
+    .filter(([tag, score]) => score >= MIN_SUGGESTION_SCORE && !existing.has(tag))
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([tag]) => tag);
+}
+
+export interface TagSummary {
+  tag: string;
+  // Conversations carrying the tag, or one of its aliases if it's in the vocabulary
+  count: number;
+  in_vocabulary: boolean;
+  aliases: string[];
+  // For tags in use that save_conversation would now write differently
+  normalizes_to?: string;
+}
+
+/**
+ * The team's tags with usage counts: the vocabulary first, then tags in use
+ * that aren't in it
+ */
+export async function listTags(
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<TagSummary[]> {
+  const [vocabulary, usage] = await Promise.all([
+    db.listTags(teamId),
+    db.countTags(teamId, userId),
+  ]);
+  const aliases = aliasMap(vocabulary);
+
+  const entries = vocabulary.map(
+    (tag): TagSummary => ({
+      tag: tag.name,
+      count: usage
+        .filter((u) => u.tag === tag.name || tag.aliases.includes(u.tag))
+        .reduce((sum, u) => sum + u.count, 0),
+      in_vocabulary: true,
+      aliases: tag.aliases,
+    })
+  );
+
+  const others = usage
+    .filter((u) => !aliases.has(u.tag))
+    .map((u): TagSummary => {
+      const normalized = normalizeTag(u.tag);
+      const target = aliases.get(normalized) ?? normalized;
+      return {
+        tag: u.tag,
+        count: u.count,
+        in_vocabulary: false,
+        aliases: [],
+        ...(target !== u.tag && { normalizes_to: target }),
+      };
+    });
+
+  return [...entries, ...others].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export const MergeTagsSchema = z.object({
+  tags: z
+    .array(z.string())
+    .min(1)
+    .describe("Tags to fold into the target, e.g. ['Auth', 'authentication', 'login']"),
+  into: z.string().describe("The tag to keep, e.g. 'auth'"),
+});
+
+export type MergeTagsInput = z.infer<typeof MergeTagsSchema>;
+
+export const RenameTagSchema = z.object({
+  from: z.string().describe("Current tag name"),
+  to: z.string().describe("New tag name"),
+});
+
+export type RenameTagInput = z.infer<typeof RenameTagSchema>;
+
+export interface TagChange {
+  tag: string;
+  aliases: string[];
+  conversations_updated: number;
+  count: number;
+}
+
+/**
+ * Fold tags into one on every conversation of the team, and record them as
+ * aliases so later saves use the target too. Spellings that normalize to a
+ * source or the target, e.g. "Auth" and "auth", are folded with them.
+ */
+export async function mergeTags(
+  input: MergeTagsInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<TagChange> {
+  const target = normalizeTag(input.into);
+  if (!target) {
+    throw new Error(`"${input.into}" isn't a valid tag name`);
+  }
+
+  const aliases = aliasMap(await db.listTags(teamId));
+  if (aliases.has(target) && aliases.get(target) !== target) {
+    throw new Error(
+      `"${target}" is an alias of "${aliases.get(target)}". Merge into "${aliases.get(target)}" instead.`
+    );
+  }
+
+  const normalized = [...new Set(input.tags.map(normalizeTag))].filter((tag) => tag.length > 0);
+  for (const tag of normalized) {
+    const owner = aliases.get(tag);
+    if (owner && owner !== tag && owner !== target) {
+      throw new Error(`"${tag}" is already an alias of "${owner}". Merge "${owner}" instead.`);
+    }
+  }
+
+  // The backend matches spellings across the whole team, private entries
+  // included, so variants the caller can't see are folded too
+  const changed = await db.mergeTags(
+    teamId,
+    userId,
+    normalized.filter((tag) => tag !== target),
+    target
+  );
+
+  const [summary] = (await listTags(db, teamId, userId)).filter((t) => t.tag === target);
+  return {
+    tag: target,
+    aliases: summary?.aliases ?? [],
+    conversations_updated: changed,
+    count: summary?.count ?? 0,
+  };
+}
+
+/**
+ * Rename a tag on every conversation of the team. The old name stays as an
+ * alias, so saves that still use it get the new one.
+ */
+export async function renameTag(
+  input: RenameTagInput,
+  db: KnowledgeStore,
+  teamId: string,
+  userId: string
+): Promise<TagChange> {
+  const from = normalizeTag(input.from);
+  const to = normalizeTag(input.to);
+  if (!to) {
+    throw new Error(`"${input.to}" isn't a valid tag name`);
+  }
+
+  const [vocabulary, usage] = await Promise.all([
+    db.listTags(teamId),
+    db.countTags(teamId, userId),
+  ]);
+  const aliases = aliasMap(vocabulary);
+  const known = (tag: string) =>
+    aliases.has(tag) || usage.some((u) => normalizeTag(u.tag) === tag);
+
+  if (!known(from)) {
+    throw new Error(`Tag not found: ${input.from}`);
+  }
+  if (to !== from && known(to)) {
+    throw new Error(`"${to}" is already a tag. Use merge_tags to fold "${from}" into it.`);
+  }
+
+  return mergeTags({ tags: [input.from], into: to }, db, teamId, userId);
+}
@@ -0,0 +1,111 @@
+import type { ConversationMessage } from "../types.js";
+import type { ParsedTranscript, TranscriptImporter, TranscriptSource } from "./importer.js";
+import { appendMessage, pickConversation, renderTranscript } from "./messages.js";
+
+// The parts of ChatGPT's conversations.json that matter here
+interface ChatGPTNode {
+  parent?: string | null;
+  message?: {
+    author?: { role?: string };
+    content?: {
+      content_type?: string;
+      parts?: unknown[];
+      text?: string;
+      language?: string;
+    };
+    metadata?: { is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGPTConversation {
+  title?: string | null;
+  update_time?: number | null;
+  current_node?: string;
+  mapping: Record<string, ChatGPTNode>;
+}
+
+function isConversation(value: unknown): value is ChatGPTConversation {
+  if (typeof value !== "object" || value === null || !("mapping" in value)) return false;
+  const mapping = value.mapping;
+  return typeof mapping === "object" && mapping !== null && !Array.isArray(mapping);
+}
+
+/**
+ * Text of a message; code-interpreter input comes through as a code block
+ */
+function messageText(node: ChatGPTNode): string {
+  const content = node.message?.content;
+  if (typeof content !== "object" || content === null) return "";
+  if (content.content_type === "code" && typeof content.text === "string") {
+    return `\`\`\`${content.language === "unknown" ? "" : content.language ?? ""}\n${content.text}\n\`\`\``;
+  }
+  return (Array.isArray(content.parts) ? content.parts : [])
+    .filter((part): part is string => typeof part === "string")
+    .join("\n")
+    .trim();
+}
+
+/**
+ * ChatGPT data export (conversations.json). Messages form a tree because
+ * of edits and regenerations; the branch ending at current_node is the
+ * one that was shown.
+ */
+export class ChatGPTImporter implements TranscriptImporter {
+  readonly format = "chatgpt" as const;
+  readonly label = "ChatGPT";
+  readonly fileName = /^conversations\.json$/;
+
+  detect(source: TranscriptSource): boolean {
+    const json = source.json;
+    return Array.isArray(json) ? isConversation(json[0]) : isConversation(json);
+  }
+
+  parse(source: TranscriptSource): ParsedTranscript | null {
+    const json = source.json;
+    const conversations = (Array.isArray(json) ? json : [json]).filter(isConversation);
+    const conversation = pickConversation(
+      conversations,
+      (c) => c.title,
+      (c) => c.update_time ?? 0,
+      source.titleHint,
+      source.requireTitleMatch
+    );
+    if (!conversation) return null;
+
+    // Walk up from the last message shown, then put the branch in order.
+    // A broken export can link parents in a loop, so stop at a repeated id.
+    const { mapping } = conversation;
+    const branch: ChatGPTNode[] = [];
+    const visited = new Set<string>();
+    let id = conversation.current_node;
+    while (typeof id === "string" && Object.hasOwn(mapping, id) && !visited.has(id)) {
+      visited.add(id);
+      const node = mapping[id];
+      if (typeof node !== "object" || node === null) break;
+      branch.unshift(node);
+      id = node.parent ?? undefined;
+    }
+
+    const messages: ConversationMessage[] = [];
+    for (const node of branch) {
+      const role = node.message?.author?.role;
+      const text = messageText(node);
+      if (
+        (role === "user" || role === "assistant") &&
+        text &&
+        !node.message?.metadata?.is_visually_hidden_from_conversation
+      ) {
+        appendMessage(messages, role, text);
+      }
+    }
+    if (messages.length === 0) return null;
+
+    const title = conversation.title ?? null;
+    return {
+      format: this.format,
+      title,
+      messages,
+      content: renderTranscript(title, this.label, messages),
+    };
+  }
+}
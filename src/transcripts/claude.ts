@@ -0,0 +1,79 @@
+import type { ConversationMessage } from "../types.js";
+import type { ParsedTranscript, TranscriptImporter, TranscriptSource } from "./importer.js";
+import { appendMessage, pickConversation, renderTranscript } from "./messages.js";
+
+// The parts of Claude's conversations.json that matter here
+interface ClaudeConversation {
+  name?: string | null;
+  updated_at?: string;
+  chat_messages: {
+    sender?: string;
+    text?: string;
+    content?: { type?: string; text?: string }[];
+  }[];
+}
+
+function isConversation(value: unknown): value is ClaudeConversation {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as ClaudeConversation).chat_messages)
+  );
+}
+
+/**
+ * Claude data export (conversations.json)
+ */
+export class ClaudeImporter implements TranscriptImporter {
+  readonly format = "claude" as const;
+  readonly label = "Claude";
+  readonly fileName = /^conversations\.json$/;
+
+  detect(source: TranscriptSource): boolean {
+    const json = source.json;
+    return Array.isArray(json) ? isConversation(json[0]) : isConversation(json);
+  }
+
+  parse(source: TranscriptSource): ParsedTranscript | null {
+    const json = source.json;
+    const conversations = (Array.isArray(json) ? json : [json]).filter(isConversation);
+    const conversation = pickConversation(
+      conversations,
+      (c) => c.name,
+      (c) => Date.parse(c.updated_at || "") || 0,
+      source.titleHint,
+      source.requireTitleMatch
+    );
+    if (!conversation) return null;
+
+    const messages: ConversationMessage[] = [];
+    for (const message of conversation.chat_messages) {
+      if (typeof message !== "object" || message === null) continue;
+
+      // Newer exports keep the text in content blocks, older ones in text
+      const blocks = Array.isArray(message.content) ? message.content : [];
+      const text = (
+        blocks
+          .filter((block) => block?.type === "text" && typeof block.text === "string")
+          .map((block) => block.text)
+          .join("\n\n") || (typeof message.text === "string" ? message.text : "")
+      ).trim();
+      if (!text) continue;
+
+      if (message.sender === "human") {
+        appendMessage(messages, "user", text);
+      } else if (message.sender === "assistant") {
+        appendMessage(messages, "assistant", text);
+      }
+    }
+    if (messages.length === 0) return null;
+
+    const title = conversation.name || null;
+    return {
+      format: this.format,
+      title,
+      messages,
+      content: renderTranscript(title, this.label, messages),
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import type { ConversationMessage } from "../types.js";
+import type { ParsedTranscript, TranscriptImporter, TranscriptSource } from "./importer.js";
+import { appendMessage, renderTranscript } from "./messages.js";
+
+// The parts of a VS Code "Chat: Export Chat..." file that matter here
+interface CopilotChat {
+  requests: {
+    message?: { text?: string };
+    // Markdown pieces mixed with references, edits and progress items
+    response?: { value?: unknown; kind?: string; content?: { value?: unknown } }[];
+  }[];
+}
+
+function isChat(value: unknown): value is CopilotChat {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as CopilotChat).requests)
+  );
+}
+
+/**
+ * GitHub Copilot chat export from VS Code (chat.json)
+ */
+export class CopilotImporter implements TranscriptImporter {
+  readonly format = "copilot" as const;
+  readonly label = "GitHub Copilot";
+  readonly fileName = /^chat.*\.json$/;
+
+  detect(source: TranscriptSource): boolean {
+    return isChat(source.json);
+  }
+
+  parse(source: TranscriptSource): ParsedTranscript | null {
+    if (!isChat(source.json)) return null;
+
+    const messages: ConversationMessage[] = [];
+    for (const request of source.json.requests) {
+      if (typeof request !== "object" || request === null) continue;
+
+      const text = request.message?.text;
+      const question = typeof text === "string" ? text.trim() : "";
+      if (question) {
+        appendMessage(messages, "user", question);
+      }
+
+      const answer = (Array.isArray(request.response) ? request.response : [])
+        .map((part) => {
+          if (typeof part !== "object" || part === null) return "";
+          const value = part.kind === "markdownContent" ? part.content?.value : part.value;
+          return typeof value === "string" ? value : "";
+        })
+        .join("")
+        .trim();
+      if (answer) {
+        appendMessage(messages, "assistant", answer);
+      }
+    }
+    if (messages.length === 0) return null;
+
+    return {
+      format: this.format,
+      title: null,
+      messages,
+      content: renderTranscript(null, this.label, messages),
+    };
+  }
+}
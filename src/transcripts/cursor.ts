@@ -0,0 +1,50 @@
+import type { MessageRole } from "../types.js";
+import type { ParsedTranscript, TranscriptImporter, TranscriptSource } from "./importer.js";
+import { splitBySpeakers } from "./messages.js";
+
+/**
+ * Speaker lines in a Cursor chat export. Turns look like:
+ *
+ *   **User**
+ *
+ *   How do I ...
+ *
+ *   ---
+ *
+ *   **Cursor**
+ *
+ *   You can ...
+ *
+ * Transcripts imported from other formats are stored in the same layout
+ * with "**Assistant**".
+ */
+const SPEAKERS = new Map<string, MessageRole>([
+  ["**User**", "user"],
+  ["**Cursor**", "assistant"],
+  ["**Assistant**", "assistant"],
+]);
+
+/**
+ * Cursor's markdown export (cursor_*.md)
+ */
+export class CursorImporter implements TranscriptImporter {
+  readonly format = "cursor" as const;
+  readonly label = "Cursor";
+  readonly fileName = /^cursor_.*\.md$/;
+
+  detect(source: TranscriptSource): boolean {
+    return source.json === undefined && /^\*\*(User|Cursor)\*\*\s*$/m.test(source.text);
+  }
+
+  parse(source: TranscriptSource): ParsedTranscript | null {
+    const messages = splitBySpeakers(source.text, (line) => SPEAKERS.get(line));
+    if (messages.length === 0) return null;
+
+    return {
+      format: this.format,
+      title: source.text.match(/^# (.+)/)?.[1].trim() ?? null,
+      messages,
+      content: source.text,
+    };
+  }
+}
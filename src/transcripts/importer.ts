@@ -0,0 +1,114 @@
+import type { ConversationMessage } from "../types.js";
+import { CursorImporter } from "./cursor.js";
+import { MarkdownImporter } from "./markdown.js";
+import { ChatGPTImporter } from "./chatgpt.js";
+import { ClaudeImporter } from "./claude.js";
+import { CopilotImporter } from "./copilot.js";
+import { JsonlImporter } from "./jsonl.js";
+
+export type TranscriptFormat = "cursor" | "markdown" | "chatgpt" | "claude" | "copilot" | "jsonl";
+
+/**
+ * An export read from disk or passed as content. JSON is parsed once up
+ * front so importers don't each parse a large export again.
+ */
+export interface TranscriptSource {
+  text: string;
+  // The parsed text, or undefined when it isn't a single JSON document
+  json: unknown;
+  // Save title, used to pick one conversation out of exports that hold many
+  titleHint?: string;
+  // Parse nothing from such exports unless a conversation has that title
+  requireTitleMatch?: boolean;
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  title: string | null;
+  messages: ConversationMessage[];
+  // What gets stored: the export itself for markdown formats, a markdown
+  // rendering for JSON formats
+  content: string;
+}
+
+/**
+ * Normalises one assistant's chat export into user and assistant turns
+ */
+export interface TranscriptImporter {
+  readonly format: TranscriptFormat;
+  // Human-readable name for messages, e.g. "ChatGPT"
+  readonly label: string;
+  // File names the export is usually saved under, for finding it in the workspace
+  readonly fileName: RegExp | null;
+
+  /**
+   * Whether the source looks like this format; cheap, used for auto-detection
+   */
+  detect(source: TranscriptSource): boolean;
+
+  /**
+   * Parse the source, or return null if it has no turns
+   */
+  parse(source: TranscriptSource): ParsedTranscript | null;
+}
+
+// Most specific first: generic markdown would also match a Cursor export
+const IMPORTERS: TranscriptImporter[] = [
+  new ChatGPTImporter(),
+  new ClaudeImporter(),
+  new CopilotImporter(),
+  new JsonlImporter(),
+  new CursorImporter(),
+  new MarkdownImporter(),
+];
+
+/**
+ * Parse a chat export. With a format hint only that importer is tried and
+ * a mismatch is an error; otherwise the format is detected, and null means
+ * the text isn't a recognised transcript.
+ */
+export function parseTranscript(
+  text: string,
+  options: {
+    format?: TranscriptFormat | "auto";
+    titleHint?: string;
+    requireTitleMatch?: boolean;
+  } = {}
+): ParsedTranscript | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  const source: TranscriptSource = {
+    text,
+    json,
+    titleHint: options.titleHint,
+    requireTitleMatch: options.requireTitleMatch,
+  };
+
+  if (options.format && options.format !== "auto") {
+    const importer = IMPORTERS.find((i) => i.format === options.format)!;
+    const parsed = importer.parse(source);
+    if (!parsed) {
+      throw new Error(`The content isn't a ${importer.label} export, or it has no messages.`);
+    }
+    return parsed;
+  }
+
+  for (const importer of IMPORTERS) {
+    if (importer.detect(source)) {
+      const parsed = importer.parse(source);
+      if (parsed) return parsed;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a file name looks like a chat export from one of the supported tools
+ */
+export function isTranscriptFile(name: string): boolean {
+  return IMPORTERS.some((importer) => importer.fileName?.test(name));
+}
@@ -0,0 +1,106 @@
+import type { ConversationMessage, MessageRole } from "../types.js";
+import type { ParsedTranscript, TranscriptImporter, TranscriptSource } from "./importer.js";
+import { appendMessage, renderTranscript } from "./messages.js";
+
+// A Map, so roles like "constructor" don't find Object.prototype members
+const ROLES = new Map<string, MessageRole>([
+  ["user", "user"],
+  ["human", "user"],
+  ["assistant", "assistant"],
+  ["ai", "assistant"],
+  ["model", "assistant"],
+  ["bot", "assistant"],
+]);
+
+interface LogMessage {
+  role: string;
+  content?: unknown;
+}
+
+function isLogMessage(value: unknown): value is LogMessage {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { role?: unknown }).role === "string"
+  );
+}
+
+/**
+ * The records of a log: JSON lines, or a JSON array / { messages: [...] }
+ * in the chat-completions shape. Lines that aren't JSON are skipped.
+ */
+function records(source: TranscriptSource): unknown[] {
+  const json = source.json as { messages?: unknown } | undefined;
+  if (Array.isArray(json)) return json;
+  if (json && Array.isArray(json.messages)) return json.messages;
+  if (json !== undefined) return [];
+
+  return source.text.split("\n").flatMap((line) => {
+    try {
+      return line.trim() ? [JSON.parse(line)] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * A record's message; agent logs wrap it as { type, message: { role, content } }
+ */
+function toLogMessage(record: unknown): LogMessage | null {
+  if (typeof record !== "object" || record === null) return null;
+  const wrapped = (record as { message?: unknown }).message;
+  const message = typeof wrapped === "object" && wrapped !== null ? wrapped : record;
+  return isLogMessage(message) ? message : null;
+}
+
+/**
+ * Text of a message: a string, or the text blocks of a content array
+ * (tool calls and results are left out)
+ */
+function messageText(content: unknown): string {
+  if (typeof content === "string") return content.trim();
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((block) => block?.type === "text" && typeof block.text === "string")
+    .map((block) => block.text)
+    .join("\n\n")
+    .trim();
+}
+
+/**
+ * Plain message logs: one { role, content } object per line (.jsonl), or
+ * a JSON array of them
+ */
+export class JsonlImporter implements TranscriptImporter {
+  readonly format = "jsonl" as const;
+  readonly label = "JSONL message log";
+  readonly fileName = /\.jsonl$/;
+
+  detect(source: TranscriptSource): boolean {
+    // Agent logs can open with a few bookkeeping lines before the first message
+    return records(source)
+      .slice(0, 5)
+      .some((record) => toLogMessage(record) !== null);
+  }
+
+  parse(source: TranscriptSource): ParsedTranscript | null {
+    const messages: ConversationMessage[] = [];
+    for (const record of records(source)) {
+      const message = toLogMessage(record);
+      const role = message && ROLES.get(message.role.toLowerCase());
+      const text = message ? messageText(message.content) : "";
+      if (role && text) {
+        appendMessage(messages, role, text);
+      }
+    }
+    if (messages.length === 0) return null;
+
+    return {
+      format: this.format,
+      title: null,
+      messages,
+      content: renderTranscript(null, this.label, messages),
+    };
+  }
+}
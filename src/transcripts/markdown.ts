@@ -0,0 +1,48 @@
+import type { MessageRole } from "../types.js";
+import type { ParsedTranscript, TranscriptImporter, TranscriptSource } from "./importer.js";
+import { splitBySpeakers } from "./messages.js";
+
+// A line that is only a speaker name, as a heading or in bold, with an
+// optional colon: "## Human", "**ChatGPT:**", "### GitHub Copilot"
+const SPEAKER_LINE =
+  /^(?:#{1,6}\s+)?(?:\*\*)?(user|you|me|human|assistant|ai|chatgpt|claude|copilot|github copilot)(?:\*\*)?:?(?:\*\*)?$/i;
+
+const USER_NAMES = new Set(["user", "you", "me", "human"]);
+
+function speakerOf(line: string): MessageRole | undefined {
+  const name = line.match(SPEAKER_LINE)?.[1].toLowerCase();
+  if (!name) return undefined;
+  return USER_NAMES.has(name) ? "user" : "assistant";
+}
+
+/**
+ * Markdown chat exports from other tools (Claude, ChatGPT and Copilot
+ * exporters), which mark speakers with headings or bold names
+ */
+export class MarkdownImporter implements TranscriptImporter {
+  readonly format = "markdown" as const;
+  readonly label = "markdown chat";
+  readonly fileName = null;
+
+  detect(source: TranscriptSource): boolean {
+    if (source.json !== undefined) return false;
+
+    // Both sides must speak, so a document with a "## User" section isn't taken for a chat
+    const roles = new Set(
+      source.text.split("\n").map((line) => speakerOf(line.trim())).filter(Boolean)
+    );
+    return roles.size === 2;
+  }
+
+  parse(source: TranscriptSource): ParsedTranscript | null {
+    const messages = splitBySpeakers(source.text, speakerOf);
+    if (messages.length === 0) return null;
+
+    return {
+      format: this.format,
+      title: source.text.match(/^# (.+)/)?.[1].trim() ?? null,
+      messages,
+      content: source.text,
+    };
+  }
+}
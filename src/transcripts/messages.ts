@@ -0,0 +1,183 @@
+import type { CodeBlock, ConversationMessage, MessageRole } from "../types.js";
+
+// Opening or closing line of a fenced code block: ``` or ~~~, three or more
+const FENCE = /^\s*(`{3,}|~{3,})\s*([^`\s]*)\s*$/;
+
+/**
+ * Tracks whether a line-by-line scan is inside a fenced code block, so
+ * speaker markers and separators inside code aren't mistaken for structure
+ */
+export class FenceTracker {
+  private open: string | null = null;
+
+  get inFence(): boolean {
+    return this.open !== null;
+  }
+
+  /**
+   * Feed the next line. Returns the fence's info string when the line opens
+   * a block, so callers can read the language.
+   */
+  next(line: string): { opened?: string; closed?: boolean } {
+    const match = line.match(FENCE);
+    if (!match) return {};
+
+    const [, marker, info] = match;
+    if (this.open === null) {
+      this.open = marker;
+      return { opened: info };
+    }
+    // A closing fence uses the same character, at least as many times, and no info
+    if (marker[0] === this.open[0] && marker.length >= this.open.length && !info) {
+      this.open = null;
+      return { closed: true };
+    }
+    return {};
+  }
+}
+
+/**
+ * Pull fenced code blocks out of a message. Cursor writes fences as
+ * ```language:path/to/file, so the info string can carry a file path too.
+ */
+export function extractCodeBlocks(text: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const fence = new FenceTracker();
+  let current: { info: string; lines: string[] } | null = null;
+
+  for (const line of text.split("\n")) {
+    const { opened, closed } = fence.next(line);
+    if (opened !== undefined) {
+      current = { info: opened, lines: [] };
+    } else if (closed && current) {
+      blocks.push(toCodeBlock(current.info, current.lines));
+      current = null;
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+
+  // An unterminated block still counts; the export was probably cut short
+  if (current && current.lines.some((line) => line.trim())) {
+    blocks.push(toCodeBlock(current.info, current.lines));
+  }
+  return blocks;
+}
+
+/**
+ * Language and file from a fence's info string, e.g. "ts:src/app.ts"
+ */
+export function parseFenceInfo(info: string): { language: string | null; file: string | null } {
+  const separator = info.indexOf(":");
+  const language = separator === -1 ? info : info.slice(0, separator);
+  const file = separator === -1 ? "" : info.slice(separator + 1);
+  return { language: language || null, file: file || null };
+}
+
+function toCodeBlock(info: string, lines: string[]): CodeBlock {
+  return { ...parseFenceInfo(info), code: lines.join("\n") };
+}
+
+export function toMessage(role: MessageRole, content: string): ConversationMessage {
+  return { role, content, code_blocks: extractCodeBlocks(content) };
+}
+
+/**
+ * Add a message, folding it into the previous one when the same side
+ * speaks twice in a row (e.g. an answer split around a tool call)
+ */
+export function appendMessage(
+  messages: ConversationMessage[],
+  role: MessageRole,
+  content: string
+): void {
+  const last = messages[messages.length - 1];
+  if (last?.role === role) {
+    messages[messages.length - 1] = toMessage(role, `${last.content}\n\n${content}`);
+  } else {
+    messages.push(toMessage(role, content));
+  }
+}
+
+/**
+ * Split markdown into turns at speaker lines, e.g. "**User**" or
+ * "## Assistant". Lines inside code blocks are never speaker lines, and
+ * anything before the first speaker (a title, an export date) is dropped.
+ */
+export function splitBySpeakers(
+  text: string,
+  speakerOf: (line: string) => MessageRole | undefined
+): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  const fence = new FenceTracker();
+  let current: { role: MessageRole; lines: string[] } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const content = current.lines
+      .join("\n")
+      .trim()
+      // Drop the separator exports write before the next speaker
+      .replace(/\n+-{3,}$/, "")
+      .trim();
+    if (content) {
+      messages.push(toMessage(current.role, content));
+    }
+  };
+
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    const role = fence.inFence ? undefined : speakerOf(line.trim());
+    if (role) {
+      finish();
+      current = { role, lines: [] };
+      continue;
+    }
+
+    fence.next(line);
+    current?.lines.push(line);
+  }
+  finish();
+
+  return messages;
+}
+
+/**
+ * Render turns in Cursor's export layout, so transcripts imported from
+ * JSON formats are stored as readable markdown that parses back the same
+ */
+export function renderTranscript(
+  title: string | null,
+  source: string,
+  messages: ConversationMessage[]
+): string {
+  const header = [...(title ? [`# ${title}`] : []), `_Imported from ${source}_`].join("\n");
+  const turns = messages.map(
+    (m) => `**${m.role === "user" ? "User" : "Assistant"}**\n\n${m.content}`
+  );
+  return [header, ...turns].join("\n\n---\n\n") + "\n";
+}
+
+/**
+ * Pick one conversation out of an export that holds many: the one whose
+ * title matches the hint, otherwise the most recently updated. With
+ * requireMatch, an export of several conversations without a match gives none.
+ */
+export function pickConversation<T>(
+  conversations: T[],
+  titleOf: (c: T) => string | null | undefined,
+  updatedAt: (c: T) => number,
+  titleHint?: string,
+  requireMatch: boolean = false
+): T | undefined {
+  if (titleHint) {
+    const hint = titleHint.toLowerCase();
+    const match =
+      conversations.find((c) => titleOf(c)?.toLowerCase() === hint) ??
+      conversations.find((c) => titleOf(c)?.toLowerCase().includes(hint));
+    if (match) return match;
+  }
+  if (requireMatch && conversations.length > 1) {
+    return undefined;
+  }
+  return [...conversations].sort((a, b) => updatedAt(b) - updatedAt(a))[0];
+}
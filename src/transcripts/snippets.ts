@@ -0,0 +1,117 @@
+import { FenceTracker, parseFenceInfo } from "./messages.js";
+
+// Longest explanation kept with a snippet
+const MAX_EXPLANATION_LENGTH = 500;
+
+// Common aliases, so a language filter finds "ts" and "typescript" blocks alike
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: "typescript",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+  rb: "ruby",
+  rs: "rust",
+  golang: "go",
+  kt: "kotlin",
+  cs: "csharp",
+  "c#": "csharp",
+  sh: "bash",
+  shell: "bash",
+  zsh: "bash",
+  console: "bash",
+  yml: "yaml",
+  md: "markdown",
+  psql: "sql",
+  postgresql: "sql",
+};
+
+export function normalizeLanguage(language: string | null | undefined): string | null {
+  if (!language) return null;
+  const lower = language.toLowerCase();
+  return LANGUAGE_ALIASES[lower] ?? lower;
+}
+
+export interface ExtractedSnippet {
+  position: number;
+  language: string | null;
+  file: string | null;
+  code: string;
+  explanation: string | null;
+}
+
+/**
+ * Last paragraph of the prose before a block, or the first one after it
+ */
+function paragraph(lines: string[], which: "first" | "last"): string | null {
+  const paragraphs = lines
+    .join("\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const text = which === "last" ? paragraphs[paragraphs.length - 1] : paragraphs[0];
+  if (!text) return null;
+  return text.length > MAX_EXPLANATION_LENGTH
+    ? text.slice(0, MAX_EXPLANATION_LENGTH) + "..."
+    : text;
+}
+
+/**
+ * Pull the fenced code blocks out of a conversation with the prose that
+ * explains them: the paragraph leading into the block, or the one right
+ * after it when the block comes first. Repeated blocks are kept once.
+ */
+export function extractSnippets(content: string): ExtractedSnippet[] {
+  const snippets: ExtractedSnippet[] = [];
+  const seen = new Set<string>();
+  const fence = new FenceTracker();
+  // Prose since the last block or turn boundary
+  let prose: string[] = [];
+  let block: { info: string; lines: string[]; before: string | null } | null = null;
+  // A snippet still waiting for the prose after it
+  let awaiting: ExtractedSnippet | null = null;
+
+  const explainAwaiting = () => {
+    if (awaiting && !awaiting.explanation) {
+      awaiting.explanation = paragraph(prose, "first");
+    }
+    awaiting = null;
+  };
+
+  for (const line of content.replace(/\r\n/g, "\n").split("\n")) {
+    const { opened, closed } = fence.next(line);
+
+    if (opened !== undefined) {
+      explainAwaiting();
+      block = { info: opened, lines: [], before: paragraph(prose, "last") };
+      prose = [];
+    } else if (closed && block) {
+      const code = block.lines.join("\n");
+      const key = `${block.info}\n${code.trim()}`;
+      if (code.trim() && !seen.has(key)) {
+        seen.add(key);
+        const { language, file } = parseFenceInfo(block.info);
+        awaiting = {
+          position: snippets.length,
+          language: normalizeLanguage(language),
+          file,
+          code,
+          explanation: block.before,
+        };
+        snippets.push(awaiting);
+      }
+      block = null;
+    } else if (block) {
+      block.lines.push(line);
+    } else if (/^\s*(-{3,}|\*\*[^*]+\*\*)\s*$/.test(line)) {
+      // A separator or speaker line ends the explanation; the next turn is about something else
+      explainAwaiting();
+      prose = [];
+    } else {
+      prose.push(line);
+    }
+  }
+  explainAwaiting();
+
+  return snippets;
+}
@@ -18,21 +18,139 @@ export interface Conversation {
   tags: string[];
   repo_context: string | null;
   file_context: string[];
+  // Root entry of the thread this session continues (null for a root)
+  parent_id: string | null;
+  thread_position: number;
   created_at: string;
   updated_at: string;
+  // Display name from the author's profile, when they have one
+  author_name?: string | null;
+  // Turns parsed from the content; null when it isn't a recognised transcript
+  messages?: ConversationMessage[] | null;
+}
+
+export type MessageRole = "user" | "assistant";
+
+export interface CodeBlock {
+  language: string | null;
+  // File the block belongs to, from Cursor's ```lang:path fences
+  file: string | null;
+  code: string;
+}
+
+export interface ConversationMessage {
+  role: MessageRole;
+  content: string;
+  code_blocks: CodeBlock[];
+}
+
+export interface ConversationThread extends Conversation {
+  // Follow-up sessions in thread order, not including the root itself
+  sessions: Conversation[];
+}
+
+export interface ConversationVersion {
+  conversation_id: string;
+  version: number;
+  title: string;
+  summary: string | null;
+  content: string;
+  is_public: boolean;
+  tags: string[];
+  repo_context: string | null;
+  file_context: string[];
+  created_at: string;
+  is_current: boolean;
 }
 
 export interface ConversationInsert {
+  // Only set when restoring an exported entry; generated otherwise
+  id?: string;
   user_id: string;
   team_id: string;
   title: string;
   summary?: string;
   content: string;
   embedding: number[];
+  chunks?: ConversationChunkInsert[];
+  snippets?: SnippetInsert[];
+  messages?: ConversationMessage[] | null;
   is_public: boolean;
   tags?: string[];
   repo_context?: string;
   file_context?: string[];
+  parent_id?: string;
+  thread_position?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ConversationUpdate {
+  title?: string;
+  summary?: string | null;
+  content?: string;
+  embedding?: number[];
+  // Replaces all existing chunks when provided
+  chunks?: ConversationChunkInsert[];
+  // Replaces all existing snippets when provided
+  snippets?: SnippetInsert[];
+  messages?: ConversationMessage[] | null;
+  tags?: string[];
+  repo_context?: string | null;
+  file_context?: string[];
+}
+
+export interface ConversationChunkInsert {
+  chunk_index: number;
+  content: string;
+  embedding: number[];
+}
+
+export interface SnippetInsert {
+  // Order of the block within the conversation
+  position: number;
+  // Normalised, e.g. "ts" is stored as "typescript"
+  language: string | null;
+  file: string | null;
+  code: string;
+  // The prose around the block: what the code does and why
+  explanation: string | null;
+  embedding: number[];
+}
+
+export interface SnippetSearchOptions {
+  // Matched against the normalised language
+  language?: string;
+  limit?: number;
+  includePrivate?: boolean;
+  minSimilarity?: number;
+}
+
+export interface SnippetSearchResult {
+  id: string;
+  conversation_id: string;
+  conversation_title: string;
+  user_id: string;
+  author_name: string | null;
+  language: string | null;
+  file: string | null;
+  code: string;
+  explanation: string | null;
+  similarity: number;
+  created_at: string;
+}
+
+export type SearchMode = "vector" | "keyword" | "hybrid";
+
+export interface SearchFilters {
+  tags?: string[];
+  tagsMatch?: "any" | "all";
+  repoContext?: string;
+  authorId?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  filePathPrefix?: string;
+  minSimilarity?: number;
 }
 
 export interface SearchResult {
@@ -40,10 +158,80 @@ export interface SearchResult {
   title: string;
   summary: string | null;
   user_id: string;
+  author_name: string | null;
   tags: string[];
-  similarity: number;
+  // Cosine similarity of the best chunk; null for keyword-only matches
+  similarity: number | null;
+  // Ranking score for the search mode: similarity, ts_rank or RRF score
+  score: number;
   created_at: string;
   repo_context: string | null;
+  matched_passage: string | null;
+  matched_chunk_index: number | null;
+}
+
+export interface Profile {
+  user_id: string;
+  team_id: string;
+  display_name: string;
+  email: string | null;
+  handle: string | null;
+  // Optional team role, e.g. "Frontend lead"
+  role: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfileUpsert {
+  user_id: string;
+  team_id: string;
+  display_name: string;
+  email: string | null;
+  handle: string | null;
+  role: string | null;
+}
+
+export type SharePrincipalType = "user" | "group";
+
+export interface ConversationShare {
+  principal_type: SharePrincipalType;
+  // A user ID or a group name
+  principal: string;
+}
+
+export interface Group {
+  team_id: string;
+  name: string;
+  description: string | null;
+  // Only the creator can change the group
+  created_by: string;
+  members: string[];
+  created_at: string;
+}
+
+export type GroupUpsert = Omit<Group, "created_at">;
+
+/**
+ * An entry in a team's tag vocabulary: the name tags are normalized to,
+ * and the other spellings that mean the same thing
+ */
+export interface TagDefinition {
+  team_id: string;
+  name: string;
+  aliases: string[];
+  updated_by: string;
+  updated_at: string;
+}
+
+export interface TagUsage {
+  tag: string;
+  // Conversations and sessions carrying the tag
+  count: number;
+}
+
+export interface TeamSearchResult extends SearchResult {
+  // The team the result came from, in a search across teams
+  team_id: string;
 }
 
 export interface ConversationMatch {
@@ -51,12 +239,56 @@ export interface ConversationMatch {
   similarity: number;
 }
 
+export interface ListConversationsOptions {
+  onlyMine?: boolean;
+  tags?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export type StorageBackend = "supabase" | "local";
+
+export type EmbeddingProviderName = "huggingface" | "local" | "hashing";
+
+export type RedactionMode = "block" | "mask" | "warn" | "off";
+
+export type TransportMode = "stdio" | "http";
+
+export type SummarizerName = "extractive" | "huggingface";
+
+/**
+ * A verified user and their team memberships, resolved from their API token
+ */
+export interface MemberIdentity {
+  userId: string;
+  teamIds: string[];
+}
+
 export interface Config {
-  supabaseUrl: string;
-  supabaseKey: string;
-  huggingfaceApiKey: string;
+  storageBackend: StorageBackend;
+  supabaseUrl?: string;
+  supabaseKey?: string;
+  // Per-member API token; when set, identity comes from the team membership
+  apiToken?: string;
+  localStorePath: string;
+  embeddingProvider: EmbeddingProviderName;
+  huggingfaceApiKey?: string;
+  localEmbeddingModel?: string;
+  summarizer: SummarizerName;
+  // Chat model for the huggingface summarizer
+  summaryModel?: string;
+  // Default team, used when a tool call doesn't name one
   teamId: string;
+  // Every team the user belongs to, including the default
+  teamIds: string[];
   userId: string;
+  duplicateThreshold: number;
+  redactionMode: RedactionMode;
+  redactionRulesFile?: string;
+  // stdio serves one local user; http serves the team, each caller with their own API token
+  transport: TransportMode;
+  httpHost: string;
+  httpPort: number;
 }
 
 /**
@@ -106,28 +338,138 @@ function getUserId(): string {
 }
 
 export function loadConfig(): Config {
+  const storageBackend = (process.env.STORAGE_BACKEND || "supabase") as StorageBackend;
+  const transport = (process.env.MCP_TRANSPORT || "stdio") as TransportMode;
   const supabaseUrl = process.env.SUPABASE_URL;
-  const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+  const apiToken = process.env.LYTICS_API_TOKEN;
+  // Members use the anon key plus their API token; the service key is for admins.
+  // A shared HTTP server uses either, with each caller's token on their requests.
+  const supabaseKey = apiToken
+    ? process.env.SUPABASE_ANON_KEY
+    : transport === "http"
+      ? process.env.SUPABASE_ANON_KEY || process.env.SUPABASE_SERVICE_KEY
+      : process.env.SUPABASE_SERVICE_KEY;
+  const localStorePath =
+    process.env.LOCAL_STORE_PATH || join(homedir(), '.lytics-mcp', 'knowledge.json');
+  const embeddingProvider = (process.env.EMBEDDING_PROVIDER || "huggingface") as EmbeddingProviderName;
   const huggingfaceApiKey = process.env.HUGGINGFACE_API_KEY;
-  const teamId = process.env.TEAM_ID;
+  const localEmbeddingModel = process.env.LOCAL_EMBEDDING_MODEL;
+  const summarizer = (process.env.SUMMARIZER || "extractive") as SummarizerName;
+  const summaryModel = process.env.SUMMARY_MODEL;
+  const teamIds = (process.env.TEAM_IDS || "")
+    .split(",")
+    .map((team) => team.trim())
+    .filter(Boolean);
+  const teamId = process.env.TEAM_ID || teamIds[0] || "";
+  const duplicateThreshold = parseFloat(process.env.DUPLICATE_THRESHOLD || "0.92");
+  const redactionMode = (process.env.REDACTION_MODE || "mask") as RedactionMode;
+  const redactionRulesFile = process.env.REDACTION_RULES_FILE;
+  const httpHost = process.env.HTTP_HOST || "127.0.0.1";
+  const httpPort = parseInt(process.env.HTTP_PORT || "3000", 10);
   
-  // Get or generate user ID automatically
-  const userId = getUserId();
+  // Get or generate user ID automatically; with an API token it is verified at startup,
+  // and over HTTP every caller brings their own
+  const userId = apiToken || transport === "http" ? "" : getUserId();
 
-  if (!supabaseUrl) throw new Error("SUPABASE_URL is required");
-  if (!supabaseKey) throw new Error("SUPABASE_SERVICE_KEY is required");
-  if (!huggingfaceApiKey) throw new Error("HUGGINGFACE_API_KEY is required");
-  if (!teamId) throw new Error("TEAM_ID is required");
+  if (storageBackend !== "supabase" && storageBackend !== "local") {
+    throw new Error(`STORAGE_BACKEND must be "supabase" or "local", got "${storageBackend}"`);
+  }
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`MCP_TRANSPORT must be "stdio" or "http", got "${transport}"`);
+  }
+  if (apiToken && storageBackend !== "supabase") {
+    throw new Error("LYTICS_API_TOKEN only applies to the supabase storage backend");
+  }
+  if (transport === "http") {
+    // Callers are identified by their team API tokens, which live in Supabase
+    if (storageBackend !== "supabase") {
+      throw new Error("MCP_TRANSPORT=http requires the supabase storage backend");
+    }
+    if (apiToken) {
+      throw new Error(
+        "LYTICS_API_TOKEN is for clients; an HTTP server signs in each caller with their own token"
+      );
+    }
+    if (isNaN(httpPort) || httpPort < 0 || httpPort > 65535) {
+      throw new Error("HTTP_PORT must be a port number");
+    }
+  }
+  if (storageBackend === "supabase") {
+    if (!supabaseUrl) throw new Error("SUPABASE_URL is required");
+    if (!supabaseKey) {
+      throw new Error(
+        apiToken
+          ? "SUPABASE_ANON_KEY is required when LYTICS_API_TOKEN is set"
+          : transport === "http"
+            ? "SUPABASE_ANON_KEY or SUPABASE_SERVICE_KEY is required"
+            : "LYTICS_API_TOKEN (with SUPABASE_ANON_KEY) or SUPABASE_SERVICE_KEY is required"
+      );
+    }
+  }
+  if (!["huggingface", "local", "hashing"].includes(embeddingProvider)) {
+    throw new Error(`EMBEDDING_PROVIDER must be "huggingface", "local" or "hashing", got "${embeddingProvider}"`);
+  }
+  if (embeddingProvider === "huggingface" && !huggingfaceApiKey) {
+    throw new Error("HUGGINGFACE_API_KEY is required");
+  }
+  if (summarizer !== "extractive" && summarizer !== "huggingface") {
+    throw new Error(`SUMMARIZER must be "extractive" or "huggingface", got "${summarizer}"`);
+  }
+  if (summarizer === "huggingface" && !huggingfaceApiKey) {
+    throw new Error("HUGGINGFACE_API_KEY is required when SUMMARIZER is huggingface");
+  }
+  if (!teamId && !apiToken && transport === "stdio") {
+    throw new Error("TEAM_ID or TEAM_IDS is required");
+  }
+  if (teamIds.length > 0 && teamId && !teamIds.includes(teamId)) {
+    throw new Error(`TEAM_ID "${teamId}" must be one of TEAM_IDS (${teamIds.join(", ")})`);
+  }
+  if (isNaN(duplicateThreshold) || duplicateThreshold <= 0 || duplicateThreshold > 1) {
+    throw new Error("DUPLICATE_THRESHOLD must be a number between 0 and 1");
+  }
+  if (!["block", "mask", "warn", "off"].includes(redactionMode)) {
+    throw new Error(`REDACTION_MODE must be "block", "mask", "warn" or "off", got "${redactionMode}"`);
+  }
 
   // Display user ID on every startup (less verbose than first time)
-  console.error(`\n🔑 Your User ID: ${userId}\n`);
+  if (userId) {
+    console.error(`\n🔑 Your User ID: ${userId}\n`);
+  }
 
   return {
+    storageBackend,
     supabaseUrl,
     supabaseKey,
+    apiToken,
+    localStorePath,
+    embeddingProvider,
     huggingfaceApiKey,
+    localEmbeddingModel,
+    summarizer,
+    summaryModel,
     teamId,
+    teamIds: teamIds.length > 0 ? teamIds : teamId ? [teamId] : [],
     userId,
+    duplicateThreshold,
+    redactionMode,
+    redactionRulesFile,
+    transport,
+    httpHost,
+    httpPort,
   };
 }
 
+/**
+ * Pick the team for a tool call: the one asked for, or the default team
+ */
+export function resolveTeam(config: Config, team?: string): string {
+  if (!team) {
+    return config.teamId;
+  }
+  if (!config.teamIds.includes(team)) {
+    throw new Error(
+      `You are not a member of team "${team}". Your teams: ${config.teamIds.join(", ")}`
+    );
+  }
+  return team;
+}
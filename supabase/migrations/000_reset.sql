@@ -6,10 +6,43 @@
 -- Drop existing objects
 drop trigger if exists conversations_updated_at on conversations;
 drop trigger if exists update_conversations_updated_at on conversations;
+drop trigger if exists conversations_record_version on conversations;
+drop trigger if exists profiles_updated_at on profiles;
 drop function if exists search_conversations;
+drop function if exists keyword_search_conversations;
+drop function if exists hybrid_search_conversations;
+drop function if exists filtered_conversations;
+drop function if exists visible_conversations;
 drop function if exists update_updated_at;
 drop function if exists update_updated_at_column;
+drop function if exists record_conversation_version;
+drop function if exists search_snippets;
+drop function if exists tag_usage;
+drop function if exists merge_team_tags;
+drop function if exists normalize_tag;
+drop table if exists tags;
+drop table if exists snippets;
+drop table if exists conversation_shares;
+drop table if exists group_members;
+drop table if exists groups;
+drop table if exists conversation_versions;
+drop table if exists conversation_chunks;
 drop table if exists conversations;
+drop table if exists profiles;
+drop table if exists team_members;
+drop table if exists member_tokens;
+drop function if exists conversations_shared_with;
+drop function if exists conversation_shared_with;
+drop function if exists add_team_member;
+drop function if exists rotate_member_token;
+drop function if exists remove_team_member;
+drop function if exists current_member_id;
+drop function if exists current_member_team;
+drop function if exists current_member_teams;
+drop function if exists current_member;
+drop function if exists hash_member_token;
+drop function if exists applied_migrations;
+drop table if exists schema_migrations;
 
 -- Now run the main setup...
 
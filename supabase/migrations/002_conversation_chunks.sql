@@ -0,0 +1,99 @@
+-- ============================================
+-- LYTICS MCP - Chunk-level embeddings
+-- Run this in Supabase SQL Editor after 001_initial_schema.sql
+-- ============================================
+
+-- 1. One embedding per chunk so long conversations are searchable end to end
+create table conversation_chunks (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references conversations(id) on delete cascade,
+  chunk_index int not null,
+  content text not null, -- Plain text so the matched passage can be shown in results
+  embedding vector(384) not null,
+  unique (conversation_id, chunk_index)
+);
+
+create index idx_conversation_chunks_conversation on conversation_chunks(conversation_id);
+create index idx_conversation_chunks_embedding on conversation_chunks
+  using hnsw (embedding vector_cosine_ops);
+
+-- 2. Search aggregates chunk hits per conversation (best chunk wins).
+--    Conversations saved before chunking fall back to their whole-conversation embedding.
+drop function if exists search_conversations(vector, text, text, boolean, int, float);
+
+create function search_conversations(
+  query_embedding vector(384),
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  match_limit int default 5,
+  similarity_threshold float default 0.5
+)
+returns table (
+  id uuid,
+  title text,
+  summary text,
+  user_id text,
+  tags text[],
+  similarity float,
+  created_at timestamptz,
+  repo_context text,
+  matched_passage text,
+  matched_chunk_index int
+)
+language plpgsql
+as $$
+begin
+  return query
+  with visible as (
+    select c.id
+    from conversations c
+    where c.team_id = team_id_filter
+      and (c.is_public = true or (include_private and c.user_id = user_id_filter))
+  ),
+  chunk_hits as (
+    select distinct on (ch.conversation_id)
+      ch.conversation_id,
+      ch.content as passage,
+      ch.chunk_index,
+      (1 - (ch.embedding <=> query_embedding))::float as score
+    from conversation_chunks ch
+    join visible v on v.id = ch.conversation_id
+    order by ch.conversation_id, ch.embedding <=> query_embedding
+  ),
+  legacy_hits as (
+    select
+      c.id as conversation_id,
+      null::text as passage,
+      null::int as chunk_index,
+      (1 - (c.embedding <=> query_embedding))::float as score
+    from conversations c
+    join visible v on v.id = c.id
+    where c.embedding is not null
+      and not exists (
+        select 1 from conversation_chunks ch where ch.conversation_id = c.id
+      )
+  ),
+  hits as (
+    select * from chunk_hits
+    union all
+    select * from legacy_hits
+  )
+  select
+    c.id,
+    c.title,
+    c.summary,
+    c.user_id,
+    c.tags,
+    h.score,
+    c.created_at,
+    c.repo_context,
+    h.passage,
+    h.chunk_index
+  from hits h
+  join conversations c on c.id = h.conversation_id
+  where h.score > similarity_threshold
+  order by h.score desc
+  limit match_limit;
+end;
+$$;
@@ -0,0 +1,189 @@
+-- ============================================
+-- LYTICS MCP - Hybrid keyword + vector search
+-- Run this in Supabase SQL Editor after 002_conversation_chunks.sql
+-- ============================================
+
+-- 1. Full-text index over the plain-text chunks
+--    (conversations.content is gzip+base64, so it can't be indexed directly)
+alter table conversation_chunks
+  add column fts tsvector generated always as (to_tsvector('english', content)) stored;
+
+create index idx_conversation_chunks_fts on conversation_chunks using gin(fts);
+
+-- 2. Keyword-only search, ranked by ts_rank_cd of the best chunk
+create or replace function keyword_search_conversations(
+  query_text text,
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  match_limit int default 5
+)
+returns table (
+  id uuid,
+  title text,
+  summary text,
+  user_id text,
+  tags text[],
+  similarity float,
+  score float,
+  created_at timestamptz,
+  repo_context text,
+  matched_passage text,
+  matched_chunk_index int
+)
+language plpgsql
+as $$
+begin
+  return query
+  with keyword_hits as (
+    select distinct on (ch.conversation_id)
+      ch.conversation_id,
+      ch.content as passage,
+      ch.chunk_index,
+      ts_rank_cd(ch.fts, q.query)::float as rank_score
+    from conversation_chunks ch
+    join conversations c on c.id = ch.conversation_id
+    cross join websearch_to_tsquery('english', query_text) as q(query)
+    where c.team_id = team_id_filter
+      and (c.is_public = true or (include_private and c.user_id = user_id_filter))
+      and ch.fts @@ q.query
+    order by ch.conversation_id, ts_rank_cd(ch.fts, q.query) desc
+  )
+  select
+    c.id,
+    c.title,
+    c.summary,
+    c.user_id,
+    c.tags,
+    null::float,
+    h.rank_score,
+    c.created_at,
+    c.repo_context,
+    h.passage,
+    h.chunk_index
+  from keyword_hits h
+  join conversations c on c.id = h.conversation_id
+  order by h.rank_score desc
+  limit match_limit;
+end;
+$$;
+
+-- 3. Hybrid search: vector and keyword rankings combined with reciprocal rank fusion
+create or replace function hybrid_search_conversations(
+  query_text text,
+  query_embedding vector(384),
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  match_limit int default 5,
+  similarity_threshold float default 0.5,
+  rrf_k int default 60
+)
+returns table (
+  id uuid,
+  title text,
+  summary text,
+  user_id text,
+  tags text[],
+  similarity float,
+  score float,
+  created_at timestamptz,
+  repo_context text,
+  matched_passage text,
+  matched_chunk_index int
+)
+language plpgsql
+as $$
+begin
+  return query
+  with visible as (
+    select c.id
+    from conversations c
+    where c.team_id = team_id_filter
+      and (c.is_public = true or (include_private and c.user_id = user_id_filter))
+  ),
+  chunk_vector_hits as (
+    select distinct on (ch.conversation_id)
+      ch.conversation_id,
+      ch.content as passage,
+      ch.chunk_index,
+      (1 - (ch.embedding <=> query_embedding))::float as vector_score
+    from conversation_chunks ch
+    join visible v on v.id = ch.conversation_id
+    order by ch.conversation_id, ch.embedding <=> query_embedding
+  ),
+  legacy_vector_hits as (
+    select
+      c.id as conversation_id,
+      null::text as passage,
+      null::int as chunk_index,
+      (1 - (c.embedding <=> query_embedding))::float as vector_score
+    from conversations c
+    join visible v on v.id = c.id
+    where c.embedding is not null
+      and not exists (
+        select 1 from conversation_chunks ch where ch.conversation_id = c.id
+      )
+  ),
+  vector_ranked as (
+    select
+      hits.*,
+      row_number() over (order by hits.vector_score desc) as rank_position
+    from (
+      select * from chunk_vector_hits
+      union all
+      select * from legacy_vector_hits
+    ) hits
+    where hits.vector_score > similarity_threshold
+    order by hits.vector_score desc
+    limit match_limit * 4
+  ),
+  keyword_ranked as (
+    select
+      hits.*,
+      row_number() over (order by hits.keyword_score desc) as rank_position
+    from (
+      select distinct on (ch.conversation_id)
+        ch.conversation_id,
+        ch.content as passage,
+        ch.chunk_index,
+        ts_rank_cd(ch.fts, q.query)::float as keyword_score
+      from conversation_chunks ch
+      join visible v on v.id = ch.conversation_id
+      cross join websearch_to_tsquery('english', query_text) as q(query)
+      where ch.fts @@ q.query
+      order by ch.conversation_id, ts_rank_cd(ch.fts, q.query) desc
+    ) hits
+    order by hits.keyword_score desc
+    limit match_limit * 4
+  ),
+  fused as (
+    select
+      coalesce(k.conversation_id, vr.conversation_id) as conversation_id,
+      vr.vector_score,
+      (coalesce(1.0 / (rrf_k + vr.rank_position), 0)
+        + coalesce(1.0 / (rrf_k + k.rank_position), 0))::float as fused_score,
+      -- Prefer the keyword passage: it contains the exact term the user asked for
+      coalesce(k.passage, vr.passage) as passage,
+      coalesce(k.chunk_index, vr.chunk_index) as chunk_index
+    from vector_ranked vr
+    full outer join keyword_ranked k on k.conversation_id = vr.conversation_id
+  )
+  select
+    c.id,
+    c.title,
+    c.summary,
+    c.user_id,
+    c.tags,
+    f.vector_score,
+    f.fused_score,
+    c.created_at,
+    c.repo_context,
+    f.passage,
+    f.chunk_index
+  from fused f
+  join conversations c on c.id = f.conversation_id
+  order by f.fused_score desc
+  limit match_limit;
+end;
+$$;
@@ -0,0 +1,331 @@
+-- ============================================
+-- LYTICS MCP - Search filters and tunable threshold
+-- Run this in Supabase SQL Editor after 003_hybrid_search.sql
+-- ============================================
+
+-- 1. Shared visibility + filter logic for every search function.
+--    Filters are applied before ranking so match_limit always returns a full page.
+create or replace function filtered_conversations(
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  tags_filter text[] default null,
+  tags_match text default 'any',
+  repo_filter text default null,
+  author_filter text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  file_prefix_filter text default null
+)
+returns table (id uuid)
+language sql
+stable
+as $$
+  select c.id
+  from conversations c
+  where c.team_id = team_id_filter
+    and (c.is_public = true or (include_private and c.user_id = user_id_filter))
+    and (
+      tags_filter is null
+      or cardinality(tags_filter) = 0
+      or (tags_match = 'all' and c.tags @> tags_filter)
+      or (tags_match <> 'all' and c.tags && tags_filter)
+    )
+    and (repo_filter is null or lower(c.repo_context) = lower(repo_filter))
+    and (author_filter is null or c.user_id = author_filter)
+    and (created_after is null or c.created_at >= created_after)
+    and (created_before is null or c.created_at <= created_before)
+    and (
+      file_prefix_filter is null
+      or exists (
+        select 1 from unnest(c.file_context) as f(path)
+        where starts_with(f.path, file_prefix_filter)
+      )
+    );
+$$;
+
+-- 2. Replace the search functions with filter-aware versions
+drop function if exists search_conversations(vector, text, text, boolean, int, float);
+drop function if exists keyword_search_conversations(text, text, text, boolean, int);
+drop function if exists hybrid_search_conversations(text, vector, text, text, boolean, int, float, int);
+
+create function search_conversations(
+  query_embedding vector(384),
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  match_limit int default 5,
+  similarity_threshold float default 0.5,
+  tags_filter text[] default null,
+  tags_match text default 'any',
+  repo_filter text default null,
+  author_filter text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  file_prefix_filter text default null
+)
+returns table (
+  id uuid,
+  title text,
+  summary text,
+  user_id text,
+  tags text[],
+  similarity float,
+  created_at timestamptz,
+  repo_context text,
+  matched_passage text,
+  matched_chunk_index int
+)
+language plpgsql
+as $$
+begin
+  return query
+  with visible as (
+    select fc.id
+    from filtered_conversations(
+      team_id_filter, user_id_filter, include_private, tags_filter, tags_match,
+      repo_filter, author_filter, created_after, created_before, file_prefix_filter
+    ) fc
+  ),
+  chunk_hits as (
+    select distinct on (ch.conversation_id)
+      ch.conversation_id,
+      ch.content as passage,
+      ch.chunk_index,
+      (1 - (ch.embedding <=> query_embedding))::float as score
+    from conversation_chunks ch
+    join visible v on v.id = ch.conversation_id
+    order by ch.conversation_id, ch.embedding <=> query_embedding
+  ),
+  legacy_hits as (
+    select
+      c.id as conversation_id,
+      null::text as passage,
+      null::int as chunk_index,
+      (1 - (c.embedding <=> query_embedding))::float as score
+    from conversations c
+    join visible v on v.id = c.id
+    where c.embedding is not null
+      and not exists (
+        select 1 from conversation_chunks ch where ch.conversation_id = c.id
+      )
+  ),
+  hits as (
+    select * from chunk_hits
+    union all
+    select * from legacy_hits
+  )
+  select
+    c.id,
+    c.title,
+    c.summary,
+    c.user_id,
+    c.tags,
+    h.score,
+    c.created_at,
+    c.repo_context,
+    h.passage,
+    h.chunk_index
+  from hits h
+  join conversations c on c.id = h.conversation_id
+  where h.score > similarity_threshold
+  order by h.score desc
+  limit match_limit;
+end;
+$$;
+
+create function keyword_search_conversations(
+  query_text text,
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  match_limit int default 5,
+  tags_filter text[] default null,
+  tags_match text default 'any',
+  repo_filter text default null,
+  author_filter text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  file_prefix_filter text default null
+)
+returns table (
+  id uuid,
+  title text,
+  summary text,
+  user_id text,
+  tags text[],
+  similarity float,
+  score float,
+  created_at timestamptz,
+  repo_context text,
+  matched_passage text,
+  matched_chunk_index int
+)
+language plpgsql
+as $$
+begin
+  return query
+  with visible as (
+    select fc.id
+    from filtered_conversations(
+      team_id_filter, user_id_filter, include_private, tags_filter, tags_match,
+      repo_filter, author_filter, created_after, created_before, file_prefix_filter
+    ) fc
+  ),
+  keyword_hits as (
+    select distinct on (ch.conversation_id)
+      ch.conversation_id,
+      ch.content as passage,
+      ch.chunk_index,
+      ts_rank_cd(ch.fts, q.query)::float as rank_score
+    from conversation_chunks ch
+    join visible v on v.id = ch.conversation_id
+    cross join websearch_to_tsquery('english', query_text) as q(query)
+    where ch.fts @@ q.query
+    order by ch.conversation_id, ts_rank_cd(ch.fts, q.query) desc
+  )
+  select
+    c.id,
+    c.title,
+    c.summary,
+    c.user_id,
+    c.tags,
+    null::float,
+    h.rank_score,
+    c.created_at,
+    c.repo_context,
+    h.passage,
+    h.chunk_index
+  from keyword_hits h
+  join conversations c on c.id = h.conversation_id
+  order by h.rank_score desc
+  limit match_limit;
+end;
+$$;
+
+create function hybrid_search_conversations(
+  query_text text,
+  query_embedding vector(384),
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  match_limit int default 5,
+  similarity_threshold float default 0.5,
+  rrf_k int default 60,
+  tags_filter text[] default null,
+  tags_match text default 'any',
+  repo_filter text default null,
+  author_filter text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  file_prefix_filter text default null
+)
+returns table (
+  id uuid,
+  title text,
+  summary text,
+  user_id text,
+  tags text[],
+  similarity float,
+  score float,
+  created_at timestamptz,
+  repo_context text,
+  matched_passage text,
+  matched_chunk_index int
+)
+language plpgsql
+as $$
+begin
+  return query
+  with visible as (
+    select fc.id
+    from filtered_conversations(
+      team_id_filter, user_id_filter, include_private, tags_filter, tags_match,
+      repo_filter, author_filter, created_after, created_before, file_prefix_filter
+    ) fc
+  ),
+  chunk_vector_hits as (
+    select distinct on (ch.conversation_id)
+      ch.conversation_id,
+      ch.content as passage,
+      ch.chunk_index,
+      (1 - (ch.embedding <=> query_embedding))::float as vector_score
+    from conversation_chunks ch
+    join visible v on v.id = ch.conversation_id
+    order by ch.conversation_id, ch.embedding <=> query_embedding
+  ),
+  legacy_vector_hits as (
+    select
+      c.id as conversation_id,
+      null::text as passage,
+      null::int as chunk_index,
+      (1 - (c.embedding <=> query_embedding))::float as vector_score
+    from conversations c
+    join visible v on v.id = c.id
+    where c.embedding is not null
+      and not exists (
+        select 1 from conversation_chunks ch where ch.conversation_id = c.id
+      )
+  ),
+  vector_ranked as (
+    select
+      hits.*,
+      row_number() over (order by hits.vector_score desc) as rank_position
+    from (
+      select * from chunk_vector_hits
+      union all
+      select * from legacy_vector_hits
+    ) hits
+    where hits.vector_score > similarity_threshold
+    order by hits.vector_score desc
+    limit match_limit * 4
+  ),
+  keyword_ranked as (
+    select
+      hits.*,
+      row_number() over (order by hits.keyword_score desc) as rank_position
+    from (
+      select distinct on (ch.conversation_id)
+        ch.conversation_id,
+        ch.content as passage,
+        ch.chunk_index,
+        ts_rank_cd(ch.fts, q.query)::float as keyword_score
+      from conversation_chunks ch
+      join visible v on v.id = ch.conversation_id
+      cross join websearch_to_tsquery('english', query_text) as q(query)
+      where ch.fts @@ q.query
+      order by ch.conversation_id, ts_rank_cd(ch.fts, q.query) desc
+    ) hits
+    order by hits.keyword_score desc
+    limit match_limit * 4
+  ),
+  fused as (
+    select
+      coalesce(k.conversation_id, vr.conversation_id) as conversation_id,
+      vr.vector_score,
+      (coalesce(1.0 / (rrf_k + vr.rank_position), 0)
+        + coalesce(1.0 / (rrf_k + k.rank_position), 0))::float as fused_score,
+      -- Prefer the keyword passage: it contains the exact term the user asked for
+      coalesce(k.passage, vr.passage) as passage,
+      coalesce(k.chunk_index, vr.chunk_index) as chunk_index
+    from vector_ranked vr
+    full outer join keyword_ranked k on k.conversation_id = vr.conversation_id
+  )
+  select
+    c.id,
+    c.title,
+    c.summary,
+    c.user_id,
+    c.tags,
+    f.vector_score,
+    f.fused_score,
+    c.created_at,
+    c.repo_context,
+    f.passage,
+    f.chunk_index
+  from fused f
+  join conversations c on c.id = f.conversation_id
+  order by f.fused_score desc
+  limit match_limit;
+end;
+$$;
@@ -0,0 +1,49 @@
+-- ============================================
+-- LYTICS MCP - Conversation version history
+-- Run this in Supabase SQL Editor after 004_search_filters.sql
+-- ============================================
+
+-- 1. Previous revisions of each conversation.
+--    The live row in `conversations` is always the newest version.
+create table conversation_versions (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references conversations(id) on delete cascade,
+  version int not null,
+  title text not null,
+  summary text,
+  content text not null, -- Stored gzip-compressed like conversations.content
+  is_public boolean,
+  tags text[] default '{}',
+  repo_context text,
+  file_context text[] default '{}',
+  created_at timestamptz not null, -- When this revision was written
+  unique (conversation_id, version)
+);
+
+create index idx_conversation_versions_conversation on conversation_versions(conversation_id, version);
+
+-- 2. Snapshot the previous values on every update
+create or replace function record_conversation_version()
+returns trigger as $$
+begin
+  insert into conversation_versions (
+    conversation_id, version, title, summary, content, is_public,
+    tags, repo_context, file_context, created_at
+  )
+  values (
+    old.id,
+    coalesce(
+      (select max(v.version) from conversation_versions v where v.conversation_id = old.id),
+      0
+    ) + 1,
+    old.title, old.summary, old.content, old.is_public,
+    old.tags, old.repo_context, old.file_context, old.updated_at
+  );
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger conversations_record_version
+  before update on conversations
+  for each row
+  execute function record_conversation_version();
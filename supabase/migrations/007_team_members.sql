@@ -0,0 +1,173 @@
+-- ============================================
+-- LYTICS MCP - Team membership, API tokens and row-level security
+-- Run this in Supabase SQL Editor after 006_conversation_threads.sql
+-- ============================================
+
+-- 1. Who belongs to which team. Each membership has its own API token;
+--    only its SHA-256 hash is stored.
+create table team_members (
+  team_id text not null,
+  user_id text not null,
+  token_hash text unique not null,
+  created_at timestamptz default now(),
+  primary key (team_id, user_id)
+);
+
+-- No policies: members are only reachable through the functions below
+alter table team_members enable row level security;
+
+-- 2. Resolve the caller from the `x-lytics-token` request header.
+--    PostgREST exposes request headers as the `request.headers` setting.
+create or replace function hash_member_token(token text)
+returns text
+language sql
+immutable
+as $$
+  select encode(sha256(convert_to(token, 'UTF8')), 'hex');
+$$;
+
+create or replace function current_member()
+returns table (user_id text, team_id text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.user_id, m.team_id
+  from team_members m
+  where m.token_hash = hash_member_token(
+    nullif(current_setting('request.headers', true), '')::json ->> 'x-lytics-token'
+  );
+$$;
+
+create or replace function current_member_id()
+returns text
+language sql
+stable
+as $$
+  select user_id from current_member();
+$$;
+
+create or replace function current_member_team()
+returns text
+language sql
+stable
+as $$
+  select team_id from current_member();
+$$;
+
+-- 3. Team leads add members (or rotate a member's token) from the SQL Editor.
+--    Pass a member's existing user ID to keep their earlier conversations.
+--    The token is returned once and cannot be recovered.
+create or replace function add_team_member(
+  member_team_id text,
+  member_user_id text default gen_random_uuid()::text
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  token text := 'lmcp_' || replace(gen_random_uuid()::text, '-', '')
+    || replace(gen_random_uuid()::text, '-', '');
+begin
+  insert into team_members (team_id, user_id, token_hash)
+  values (member_team_id, member_user_id, hash_member_token(token))
+  on conflict on constraint team_members_pkey
+  do update set token_hash = excluded.token_hash;
+
+  return token;
+end;
+$$;
+
+create or replace function remove_team_member(member_team_id text, member_user_id text)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  with removed as (
+    delete from team_members
+    where team_id = member_team_id and user_id = member_user_id
+    returning 1
+  )
+  select exists (select 1 from removed);
+$$;
+
+revoke execute on function add_team_member(text, text) from public, anon, authenticated;
+revoke execute on function remove_team_member(text, text) from public, anon, authenticated;
+
+-- 4. Row-level security: members see their team's public entries and their own,
+--    and only change what they own. The service key bypasses these policies.
+alter table conversations enable row level security;
+
+create policy "members read team conversations" on conversations
+  for select
+  using (
+    team_id = (select current_member_team())
+    and (is_public = true or user_id = (select current_member_id()))
+  );
+
+create policy "members add own conversations" on conversations
+  for insert
+  with check (
+    team_id = (select current_member_team())
+    and user_id = (select current_member_id())
+  );
+
+create policy "owners update conversations" on conversations
+  for update
+  using (
+    team_id = (select current_member_team())
+    and user_id = (select current_member_id())
+  )
+  with check (
+    team_id = (select current_member_team())
+    and user_id = (select current_member_id())
+  );
+
+create policy "owners delete conversations" on conversations
+  for delete
+  using (
+    team_id = (select current_member_team())
+    and user_id = (select current_member_id())
+  );
+
+-- Chunks and versions follow the conversation they belong to
+alter table conversation_chunks enable row level security;
+
+create policy "members read visible chunks" on conversation_chunks
+  for select
+  using (exists (select 1 from conversations c where c.id = conversation_id));
+
+create policy "owners write chunks" on conversation_chunks
+  for all
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = conversation_id and c.user_id = (select current_member_id())
+    )
+  )
+  with check (
+    exists (
+      select 1 from conversations c
+      where c.id = conversation_id and c.user_id = (select current_member_id())
+    )
+  );
+
+alter table conversation_versions enable row level security;
+
+create policy "members read visible versions" on conversation_versions
+  for select
+  using (exists (select 1 from conversations c where c.id = conversation_id));
+
+-- Written by the conversations_record_version trigger during an owner's update
+create policy "owners record versions" on conversation_versions
+  for insert
+  with check (
+    exists (
+      select 1 from conversations c
+      where c.id = conversation_id and c.user_id = (select current_member_id())
+    )
+  );
@@ -0,0 +1,352 @@
+-- ============================================
+-- LYTICS MCP - User profiles
+-- Run this in Supabase SQL Editor after 007_team_members.sql
+-- ============================================
+
+-- 1. Display names for the user IDs behind conversations, one profile per team membership
+create table profiles (
+  team_id text not null,
+  user_id text not null,
+  display_name text not null,
+  email text,
+  handle text, -- e.g. a Slack or GitHub handle
+  role text, -- Optional team role, e.g. "Frontend lead"
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  primary key (team_id, user_id)
+);
+
+create trigger profiles_updated_at
+  before update on profiles
+  for each row
+  execute function update_updated_at();
+
+-- 2. Members see their team's profiles and edit only their own
+alter table profiles enable row level security;
+
+create policy "members read team profiles" on profiles
+  for select
+  using (team_id = (select current_member_team()));
+
+create policy "members add own profile" on profiles
+  for insert
+  with check (
+    team_id = (select current_member_team())
+    and user_id = (select current_member_id())
+  );
+
+create policy "members update own profile" on profiles
+  for update
+  using (
+    team_id = (select current_member_team())
+    and user_id = (select current_member_id())
+  )
+  with check (
+    team_id = (select current_member_team())
+    and user_id = (select current_member_id())
+  );
+
+-- 3. Search results include the author's display name
+drop function if exists search_conversations(vector, text, text, boolean, int, float, text[], text, text, text, timestamptz, timestamptz, text);
+drop function if exists keyword_search_conversations(text, text, text, boolean, int, text[], text, text, text, timestamptz, timestamptz, text);
+drop function if exists hybrid_search_conversations(text, vector, text, text, boolean, int, float, int, text[], text, text, text, timestamptz, timestamptz, text);
+
+create function search_conversations(
+  query_embedding vector(384),
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  match_limit int default 5,
+  similarity_threshold float default 0.5,
+  tags_filter text[] default null,
+  tags_match text default 'any',
+  repo_filter text default null,
+  author_filter text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  file_prefix_filter text default null
+)
+returns table (
+  id uuid,
+  title text,
+  summary text,
+  user_id text,
+  author_name text,
+  tags text[],
+  similarity float,
+  created_at timestamptz,
+  repo_context text,
+  matched_passage text,
+  matched_chunk_index int
+)
+language plpgsql
+as $$
+begin
+  return query
+  with visible as (
+    select fc.id, fc.thread_id
+    from filtered_conversations(
+      team_id_filter, user_id_filter, include_private, tags_filter, tags_match,
+      repo_filter, author_filter, created_after, created_before, file_prefix_filter
+    ) fc
+  ),
+  chunk_hits as (
+    select distinct on (v.thread_id)
+      v.thread_id as conversation_id,
+      ch.content as passage,
+      ch.chunk_index,
+      (1 - (ch.embedding <=> query_embedding))::float as score
+    from conversation_chunks ch
+    join visible v on v.id = ch.conversation_id
+    order by v.thread_id, ch.embedding <=> query_embedding
+  ),
+  legacy_hits as (
+    select
+      v.thread_id as conversation_id,
+      null::text as passage,
+      null::int as chunk_index,
+      (1 - (c.embedding <=> query_embedding))::float as score
+    from conversations c
+    join visible v on v.id = c.id
+    where c.embedding is not null
+      and not exists (
+        select 1 from conversation_chunks ch where ch.conversation_id = c.id
+      )
+  ),
+  hits as (
+    -- A thread with a pre-chunking root can match through both lists
+    select distinct on (u.conversation_id) u.*
+    from (
+      select * from chunk_hits
+      union all
+      select * from legacy_hits
+    ) u
+    order by u.conversation_id, u.score desc
+  )
+  select
+    c.id,
+    c.title,
+    c.summary,
+    c.user_id,
+    p.display_name,
+    c.tags,
+    h.score,
+    c.created_at,
+    c.repo_context,
+    h.passage,
+    h.chunk_index
+  from hits h
+  join conversations c on c.id = h.conversation_id
+  left join profiles p on p.team_id = c.team_id and p.user_id = c.user_id
+  where h.score > similarity_threshold
+  order by h.score desc
+  limit match_limit;
+end;
+$$;
+
+create function keyword_search_conversations(
+  query_text text,
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  match_limit int default 5,
+  tags_filter text[] default null,
+  tags_match text default 'any',
+  repo_filter text default null,
+  author_filter text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  file_prefix_filter text default null
+)
+returns table (
+  id uuid,
+  title text,
+  summary text,
+  user_id text,
+  author_name text,
+  tags text[],
+  similarity float,
+  score float,
+  created_at timestamptz,
+  repo_context text,
+  matched_passage text,
+  matched_chunk_index int
+)
+language plpgsql
+as $$
+begin
+  return query
+  with visible as (
+    select fc.id, fc.thread_id
+    from filtered_conversations(
+      team_id_filter, user_id_filter, include_private, tags_filter, tags_match,
+      repo_filter, author_filter, created_after, created_before, file_prefix_filter
+    ) fc
+  ),
+  keyword_hits as (
+    select distinct on (v.thread_id)
+      v.thread_id as conversation_id,
+      ch.content as passage,
+      ch.chunk_index,
+      ts_rank_cd(ch.fts, q.query)::float as rank_score
+    from conversation_chunks ch
+    join visible v on v.id = ch.conversation_id
+    cross join websearch_to_tsquery('english', query_text) as q(query)
+    where ch.fts @@ q.query
+    order by v.thread_id, ts_rank_cd(ch.fts, q.query) desc
+  )
+  select
+    c.id,
+    c.title,
+    c.summary,
+    c.user_id,
+    p.display_name,
+    c.tags,
+    null::float,
+    h.rank_score,
+    c.created_at,
+    c.repo_context,
+    h.passage,
+    h.chunk_index
+  from keyword_hits h
+  join conversations c on c.id = h.conversation_id
+  left join profiles p on p.team_id = c.team_id and p.user_id = c.user_id
+  order by h.rank_score desc
+  limit match_limit;
+end;
+$$;
+
+create function hybrid_search_conversations(
+  query_text text,
+  query_embedding vector(384),
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  match_limit int default 5,
+  similarity_threshold float default 0.5,
+  rrf_k int default 60,
+  tags_filter text[] default null,
+  tags_match text default 'any',
+  repo_filter text default null,
+  author_filter text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  file_prefix_filter text default null
+)
+returns table (
+  id uuid,
+  title text,
+  summary text,
+  user_id text,
+  author_name text,
+  tags text[],
+  similarity float,
+  score float,
+  created_at timestamptz,
+  repo_context text,
+  matched_passage text,
+  matched_chunk_index int
+)
+language plpgsql
+as $$
+begin
+  return query
+  with visible as (
+    select fc.id, fc.thread_id
+    from filtered_conversations(
+      team_id_filter, user_id_filter, include_private, tags_filter, tags_match,
+      repo_filter, author_filter, created_after, created_before, file_prefix_filter
+    ) fc
+  ),
+  chunk_vector_hits as (
+    select distinct on (v.thread_id)
+      v.thread_id as conversation_id,
+      ch.content as passage,
+      ch.chunk_index,
+      (1 - (ch.embedding <=> query_embedding))::float as vector_score
+    from conversation_chunks ch
+    join visible v on v.id = ch.conversation_id
+    order by v.thread_id, ch.embedding <=> query_embedding
+  ),
+  legacy_vector_hits as (
+    select
+      v.thread_id as conversation_id,
+      null::text as passage,
+      null::int as chunk_index,
+      (1 - (c.embedding <=> query_embedding))::float as vector_score
+    from conversations c
+    join visible v on v.id = c.id
+    where c.embedding is not null
+      and not exists (
+        select 1 from conversation_chunks ch where ch.conversation_id = c.id
+      )
+  ),
+  vector_ranked as (
+    select
+      hits.*,
+      row_number() over (order by hits.vector_score desc) as rank_position
+    from (
+      -- A thread with a pre-chunking root can match through both lists
+      select distinct on (u.conversation_id) u.*
+      from (
+        select * from chunk_vector_hits
+        union all
+        select * from legacy_vector_hits
+      ) u
+      order by u.conversation_id, u.vector_score desc
+    ) hits
+    where hits.vector_score > similarity_threshold
+    order by hits.vector_score desc
+    limit match_limit * 4
+  ),
+  keyword_ranked as (
+    select
+      hits.*,
+      row_number() over (order by hits.keyword_score desc) as rank_position
+    from (
+      select distinct on (v.thread_id)
+        v.thread_id as conversation_id,
+        ch.content as passage,
+        ch.chunk_index,
+        ts_rank_cd(ch.fts, q.query)::float as keyword_score
+      from conversation_chunks ch
+      join visible v on v.id = ch.conversation_id
+      cross join websearch_to_tsquery('english', query_text) as q(query)
+      where ch.fts @@ q.query
+      order by v.thread_id, ts_rank_cd(ch.fts, q.query) desc
+    ) hits
+    order by hits.keyword_score desc
+    limit match_limit * 4
+  ),
+  fused as (
+    select
+      coalesce(k.conversation_id, vr.conversation_id) as conversation_id,
+      vr.vector_score,
+      (coalesce(1.0 / (rrf_k + vr.rank_position), 0)
+        + coalesce(1.0 / (rrf_k + k.rank_position), 0))::float as fused_score,
+      -- Prefer the keyword passage: it contains the exact term the user asked for
+      coalesce(k.passage, vr.passage) as passage,
+      coalesce(k.chunk_index, vr.chunk_index) as chunk_index
+    from vector_ranked vr
+    full outer join keyword_ranked k on k.conversation_id = vr.conversation_id
+  )
+  select
+    c.id,
+    c.title,
+    c.summary,
+    c.user_id,
+    p.display_name,
+    c.tags,
+    f.vector_score,
+    f.fused_score,
+    c.created_at,
+    c.repo_context,
+    f.passage,
+    f.chunk_index
+  from fused f
+  join conversations c on c.id = f.conversation_id
+  left join profiles p on p.team_id = c.team_id and p.user_id = c.user_id
+  order by f.fused_score desc
+  limit match_limit;
+end;
+$$;
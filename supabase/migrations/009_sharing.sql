@@ -0,0 +1,212 @@
+-- ============================================
+-- LYTICS MCP - Sharing with people and groups
+-- Run this in Supabase SQL Editor after 008_profiles.sql
+-- ============================================
+
+-- 1. Named groups of team members, e.g. "payments-oncall"
+create table groups (
+  team_id text not null,
+  name text not null,
+  description text,
+  created_by text not null, -- Only the creator can change the group
+  created_at timestamptz default now(),
+  primary key (team_id, name)
+);
+
+create table group_members (
+  team_id text not null,
+  group_name text not null,
+  user_id text not null,
+  primary key (team_id, group_name, user_id),
+  foreign key (team_id, group_name) references groups(team_id, name) on delete cascade
+);
+
+create index idx_group_members_user on group_members(team_id, user_id);
+
+-- 2. Private conversations can be shared with users or groups.
+--    Shares are made on a thread root and cover its sessions.
+create table conversation_shares (
+  conversation_id uuid not null references conversations(id) on delete cascade,
+  principal_type text not null check (principal_type in ('user', 'group')),
+  principal text not null, -- A user ID or a group name
+  created_at timestamptz default now(),
+  primary key (conversation_id, principal_type, principal)
+);
+
+create index idx_conversation_shares_principal on conversation_shares(principal_type, principal);
+
+-- Security definer so policies can call it without recursing into each other
+create or replace function conversation_shared_with(conversation uuid, viewer text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from conversation_shares s
+    join conversations c on c.id = s.conversation_id
+    where s.conversation_id = conversation
+      and (
+        (s.principal_type = 'user' and s.principal = viewer)
+        or (
+          s.principal_type = 'group'
+          and exists (
+            select 1 from group_members gm
+            where gm.team_id = c.team_id
+              and gm.group_name = s.principal
+              and gm.user_id = viewer
+          )
+        )
+      )
+  );
+$$;
+
+-- 3. Entries shared with the user are visible in search like public ones
+create or replace function filtered_conversations(
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  tags_filter text[] default null,
+  tags_match text default 'any',
+  repo_filter text default null,
+  author_filter text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  file_prefix_filter text default null
+)
+returns table (id uuid, thread_id uuid)
+language sql
+stable
+as $$
+  with roots as (
+    select c.id
+    from conversations c
+    where c.team_id = team_id_filter
+      and c.parent_id is null
+      and (
+        c.is_public = true
+        or (include_private and c.user_id = user_id_filter)
+        or conversation_shared_with(c.id, user_id_filter)
+      )
+      and (
+        tags_filter is null
+        or cardinality(tags_filter) = 0
+        or (tags_match = 'all' and c.tags @> tags_filter)
+        or (tags_match <> 'all' and c.tags && tags_filter)
+      )
+      and (repo_filter is null or lower(c.repo_context) = lower(repo_filter))
+      and (author_filter is null or c.user_id = author_filter)
+      and (created_after is null or c.created_at >= created_after)
+      and (created_before is null or c.created_at <= created_before)
+      and (
+        file_prefix_filter is null
+        or exists (
+          select 1 from unnest(c.file_context) as f(path)
+          where starts_with(f.path, file_prefix_filter)
+        )
+      )
+  )
+  select r.id, r.id from roots r
+  union all
+  select s.id, s.parent_id from conversations s join roots r on s.parent_id = r.id;
+$$;
+
+-- 4. Row-level security
+drop policy "members read team conversations" on conversations;
+
+create policy "members read team conversations" on conversations
+  for select
+  using (
+    team_id = (select current_member_team())
+    and (
+      is_public = true
+      or user_id = (select current_member_id())
+      or conversation_shared_with(coalesce(parent_id, id), (select current_member_id()))
+    )
+  );
+
+alter table groups enable row level security;
+
+create policy "members read team groups" on groups
+  for select
+  using (team_id = (select current_member_team()));
+
+create policy "members create groups" on groups
+  for insert
+  with check (
+    team_id = (select current_member_team())
+    and created_by = (select current_member_id())
+  );
+
+create policy "creators change groups" on groups
+  for update
+  using (created_by = (select current_member_id()))
+  with check (
+    team_id = (select current_member_team())
+    and created_by = (select current_member_id())
+  );
+
+create policy "creators delete groups" on groups
+  for delete
+  using (created_by = (select current_member_id()));
+
+alter table group_members enable row level security;
+
+create policy "members read team group members" on group_members
+  for select
+  using (team_id = (select current_member_team()));
+
+create policy "creators manage group members" on group_members
+  for all
+  using (
+    exists (
+      select 1 from groups g
+      where g.team_id = group_members.team_id
+        and g.name = group_members.group_name
+        and g.created_by = (select current_member_id())
+    )
+  )
+  with check (
+    exists (
+      select 1 from groups g
+      where g.team_id = group_members.team_id
+        and g.name = group_members.group_name
+        and g.created_by = (select current_member_id())
+    )
+  );
+
+alter table conversation_shares enable row level security;
+
+create policy "members read shares of visible conversations" on conversation_shares
+  for select
+  using (exists (select 1 from conversations c where c.id = conversation_id));
+
+create policy "owners manage shares" on conversation_shares
+  for all
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = conversation_id and c.user_id = (select current_member_id())
+    )
+  )
+  with check (
+    exists (
+      select 1 from conversations c
+      where c.id = conversation_id and c.user_id = (select current_member_id())
+    )
+  );
+
+-- 5. Conversations shared with a user directly or through their groups
+create or replace function conversations_shared_with(team_id_filter text, viewer text)
+returns table (id uuid)
+language sql
+stable
+as $$
+  select s.conversation_id
+  from conversation_shares s
+  join conversations c on c.id = s.conversation_id
+  where c.team_id = team_id_filter
+    and conversation_shared_with(s.conversation_id, viewer);
+$$;
@@ -0,0 +1,237 @@
+-- ============================================
+-- LYTICS MCP - Members of several teams
+-- Run this in Supabase SQL Editor after 009_sharing.sql
+-- ============================================
+
+-- 1. API tokens belong to a user and cover all of their team memberships.
+--    Existing tokens keep working.
+create table member_tokens (
+  token_hash text primary key,
+  user_id text not null,
+  created_at timestamptz default now()
+);
+
+create index idx_member_tokens_user on member_tokens(user_id);
+
+insert into member_tokens (token_hash, user_id, created_at)
+select token_hash, user_id, created_at from team_members;
+
+-- No policies: tokens are only reachable through the functions below
+alter table member_tokens enable row level security;
+
+-- 2. Resolve the caller and all of their teams
+create or replace function current_member()
+returns table (user_id text, team_id text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.user_id, m.team_id
+  from team_members m
+  join member_tokens t on t.user_id = m.user_id
+  where t.token_hash = hash_member_token(
+    nullif(current_setting('request.headers', true), '')::json ->> 'x-lytics-token'
+  );
+$$;
+
+create or replace function current_member_id()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.user_id
+  from member_tokens t
+  where t.token_hash = hash_member_token(
+    nullif(current_setting('request.headers', true), '')::json ->> 'x-lytics-token'
+  );
+$$;
+
+create or replace function current_member_teams()
+returns setof text
+language sql
+stable
+as $$
+  select team_id from current_member();
+$$;
+
+-- 3. Policies allow every team the caller belongs to
+drop policy "members read team conversations" on conversations;
+drop policy "members add own conversations" on conversations;
+drop policy "owners update conversations" on conversations;
+drop policy "owners delete conversations" on conversations;
+
+create policy "members read team conversations" on conversations
+  for select
+  using (
+    team_id in (select current_member_teams())
+    and (
+      is_public = true
+      or user_id = (select current_member_id())
+      or conversation_shared_with(coalesce(parent_id, id), (select current_member_id()))
+    )
+  );
+
+create policy "members add own conversations" on conversations
+  for insert
+  with check (
+    team_id in (select current_member_teams())
+    and user_id = (select current_member_id())
+  );
+
+create policy "owners update conversations" on conversations
+  for update
+  using (
+    team_id in (select current_member_teams())
+    and user_id = (select current_member_id())
+  )
+  with check (
+    team_id in (select current_member_teams())
+    and user_id = (select current_member_id())
+  );
+
+create policy "owners delete conversations" on conversations
+  for delete
+  using (
+    team_id in (select current_member_teams())
+    and user_id = (select current_member_id())
+  );
+
+drop policy "members read team profiles" on profiles;
+drop policy "members add own profile" on profiles;
+drop policy "members update own profile" on profiles;
+
+create policy "members read team profiles" on profiles
+  for select
+  using (team_id in (select current_member_teams()));
+
+create policy "members add own profile" on profiles
+  for insert
+  with check (
+    team_id in (select current_member_teams())
+    and user_id = (select current_member_id())
+  );
+
+create policy "members update own profile" on profiles
+  for update
+  using (
+    team_id in (select current_member_teams())
+    and user_id = (select current_member_id())
+  )
+  with check (
+    team_id in (select current_member_teams())
+    and user_id = (select current_member_id())
+  );
+
+drop policy "members read team groups" on groups;
+drop policy "members create groups" on groups;
+drop policy "creators change groups" on groups;
+
+create policy "members read team groups" on groups
+  for select
+  using (team_id in (select current_member_teams()));
+
+create policy "members create groups" on groups
+  for insert
+  with check (
+    team_id in (select current_member_teams())
+    and created_by = (select current_member_id())
+  );
+
+create policy "creators change groups" on groups
+  for update
+  using (created_by = (select current_member_id()))
+  with check (
+    team_id in (select current_member_teams())
+    and created_by = (select current_member_id())
+  );
+
+drop policy "members read team group members" on group_members;
+
+create policy "members read team group members" on group_members
+  for select
+  using (team_id in (select current_member_teams()));
+
+drop function current_member_team();
+
+-- 4. Membership management. Adding someone who already has a token
+--    returns null: their token now covers the new team too.
+alter table team_members drop column token_hash;
+
+create or replace function add_team_member(
+  member_team_id text,
+  member_user_id text default gen_random_uuid()::text
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  token text;
+begin
+  insert into team_members (team_id, user_id)
+  values (member_team_id, member_user_id)
+  on conflict on constraint team_members_pkey do nothing;
+
+  if exists (select 1 from member_tokens t where t.user_id = member_user_id) then
+    return null;
+  end if;
+
+  token := 'lmcp_' || replace(gen_random_uuid()::text, '-', '')
+    || replace(gen_random_uuid()::text, '-', '');
+  insert into member_tokens (token_hash, user_id)
+  values (hash_member_token(token), member_user_id);
+
+  return token;
+end;
+$$;
+
+-- Replace all of a member's tokens with a new one (e.g. after a leak)
+create or replace function rotate_member_token(member_user_id text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  token text := 'lmcp_' || replace(gen_random_uuid()::text, '-', '')
+    || replace(gen_random_uuid()::text, '-', '');
+begin
+  if not exists (select 1 from team_members m where m.user_id = member_user_id) then
+    raise exception 'User % is not a member of any team', member_user_id;
+  end if;
+
+  delete from member_tokens where user_id = member_user_id;
+  insert into member_tokens (token_hash, user_id)
+  values (hash_member_token(token), member_user_id);
+
+  return token;
+end;
+$$;
+
+-- Removing someone's last membership also revokes their tokens
+create or replace function remove_team_member(member_team_id text, member_user_id text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  removed boolean;
+begin
+  delete from team_members
+  where team_id = member_team_id and user_id = member_user_id;
+  removed := found;
+
+  if not exists (select 1 from team_members m where m.user_id = member_user_id) then
+    delete from member_tokens where user_id = member_user_id;
+  end if;
+
+  return removed;
+end;
+$$;
+
+revoke execute on function rotate_member_token(text) from public, anon, authenticated;
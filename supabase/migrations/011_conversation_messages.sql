@@ -0,0 +1,9 @@
+-- ============================================
+-- LYTICS MCP - Structured conversation turns
+-- Run this in Supabase SQL Editor after 010_multiple_teams.sql
+-- ============================================
+
+-- User and assistant turns parsed from an exported transcript, with their
+-- code blocks. Stored gzip+base64 encoded JSON like the content; null when
+-- the content isn't a recognised transcript.
+alter table conversations add column messages text;
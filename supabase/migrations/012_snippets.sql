@@ -0,0 +1,94 @@
+-- ============================================
+-- LYTICS MCP - Code snippet index
+-- Run this in Supabase SQL Editor after 011_conversation_messages.sql
+-- ============================================
+
+-- 1. Fenced code blocks extracted at save time, each with the prose that
+--    explains it and its own embedding
+create table snippets (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references conversations(id) on delete cascade,
+  position int not null, -- Order of the block within the conversation
+  language text, -- Normalised, e.g. "ts" is stored as "typescript"
+  file text, -- From Cursor's ```lang:path fences
+  code text not null,
+  explanation text,
+  embedding vector(384) not null,
+  unique (conversation_id, position)
+);
+
+create index idx_snippets_conversation on snippets(conversation_id);
+create index idx_snippets_language on snippets(language);
+create index idx_snippets_embedding on snippets
+  using hnsw (embedding vector_cosine_ops);
+
+-- 2. Snippets are as visible as their conversation, like chunks
+alter table snippets enable row level security;
+
+create policy "members read visible snippets" on snippets
+  for select
+  using (exists (select 1 from conversations c where c.id = conversation_id));
+
+create policy "owners write snippets" on snippets
+  for all
+  using (
+    exists (
+      select 1 from conversations c
+      where c.id = conversation_id and c.user_id = (select current_member_id())
+    )
+  )
+  with check (
+    exists (
+      select 1 from conversations c
+      where c.id = conversation_id and c.user_id = (select current_member_id())
+    )
+  );
+
+-- 3. Snippet search over the conversations the user may see
+create or replace function search_snippets(
+  query_embedding vector(384),
+  team_id_filter text,
+  user_id_filter text,
+  include_private boolean default false,
+  language_filter text default null,
+  match_limit int default 5,
+  similarity_threshold float default 0.5
+)
+returns table (
+  id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  user_id text,
+  author_name text,
+  language text,
+  file text,
+  code text,
+  explanation text,
+  similarity float,
+  created_at timestamptz
+)
+language sql
+stable
+as $$
+  select
+    s.id,
+    s.conversation_id,
+    c.title,
+    c.user_id,
+    p.display_name,
+    s.language,
+    s.file,
+    s.code,
+    s.explanation,
+    (1 - (s.embedding <=> query_embedding))::float,
+    c.created_at
+  from snippets s
+  join filtered_conversations(team_id_filter, user_id_filter, include_private) fc
+    on fc.id = s.conversation_id
+  join conversations c on c.id = s.conversation_id
+  left join profiles p on p.team_id = c.team_id and p.user_id = c.user_id
+  where (language_filter is null or s.language = language_filter)
+    and 1 - (s.embedding <=> query_embedding) > similarity_threshold
+  order by s.embedding <=> query_embedding
+  limit match_limit;
+$$;
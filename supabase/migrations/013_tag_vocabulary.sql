@@ -0,0 +1,119 @@
+-- ============================================
+-- LYTICS MCP - Team tag vocabulary
+-- Run this in Supabase SQL Editor after 012_snippets.sql
+-- ============================================
+
+-- 1. The tags a team has settled on, with the other spellings that map to
+--    them, e.g. "auth" with aliases "authentication" and "login"
+create table tags (
+  team_id text not null,
+  name text not null,
+  aliases text[] not null default '{}',
+  updated_by text not null,
+  updated_at timestamptz default now(),
+  primary key (team_id, name)
+);
+
+create index idx_tags_aliases on tags using gin(aliases);
+
+-- Members read the vocabulary; it only changes through merge_team_tags
+alter table tags enable row level security;
+
+create policy "members read team tags" on tags
+  for select
+  using (team_id in (select current_member_teams()));
+
+-- 2. How many conversations the user may see carry each tag
+create or replace function tag_usage(team_id_filter text, user_id_filter text)
+returns table (tag text, count bigint)
+language sql
+stable
+as $$
+  select t.tag, count(*)
+  from filtered_conversations(team_id_filter, user_id_filter, true) fc
+  join conversations c on c.id = fc.id
+  cross join unnest(c.tags) as t(tag)
+  group by t.tag
+  order by count(*) desc, t.tag;
+$$;
+
+-- 3. Fold tags into one across the whole team, private entries included,
+--    and remember the old names as aliases. source_tags are the exact
+--    spellings on conversations, new_aliases their normalized forms.
+--    Security definer because it changes other members' conversations;
+--    the history trigger still records every change.
+create or replace function merge_team_tags(
+  team_id_filter text,
+  member_id text,
+  source_tags text[],
+  target_tag text,
+  new_aliases text[]
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed int;
+begin
+  -- Members of the team, or an admin with the service key
+  if not (
+    team_id_filter in (select current_member_teams())
+    or coalesce(
+      nullif(current_setting('request.jwt.claims', true), '')::json ->> 'role',
+      ''
+    ) = 'service_role'
+  ) then
+    raise exception 'Not a member of team %', team_id_filter;
+  end if;
+
+  update conversations c
+  set tags = array(
+    select merged.tag
+    from (
+      select
+        case when u.tag = any(source_tags) then target_tag else u.tag end as tag,
+        min(u.position) as position
+      from unnest(c.tags) with ordinality as u(tag, position)
+      group by 1
+    ) merged
+    order by merged.position
+  )
+  where c.team_id = team_id_filter
+    and c.tags && source_tags;
+
+  get diagnostics changed = row_count;
+
+  insert into tags (team_id, name, aliases, updated_by)
+  values (
+    team_id_filter,
+    target_tag,
+    array(
+      select distinct a.alias
+      from (
+        select unnest(new_aliases) as alias
+        union
+        select unnest(t.aliases)
+        from tags t
+        where t.team_id = team_id_filter
+          and (t.name = target_tag or t.name = any(source_tags))
+      ) a
+      where a.alias <> target_tag
+      order by a.alias
+    ),
+    coalesce(current_member_id(), member_id)
+  )
+  on conflict (team_id, name) do update
+  set aliases = excluded.aliases,
+      updated_by = excluded.updated_by,
+      updated_at = now();
+
+  delete from tags
+  where team_id = team_id_filter
+    and name = any(source_tags)
+    and name <> target_tag;
+
+  return changed;
+end;
+$$;
@@ -0,0 +1,105 @@
+-- ============================================
+-- LYTICS MCP - Fold tag spellings in the database
+-- Run this in Supabase SQL Editor after 013_tag_vocabulary.sql
+-- ============================================
+
+-- 1. The canonical spelling of a tag, like normalizeTag() in the server:
+--    "Rate Limiting" becomes "rate-limiting"
+create or replace function normalize_tag(tag text)
+returns text
+language sql
+immutable
+as $$
+  select trim(both '-' from regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(tag), '[[:space:]_]+', '-', 'g'),
+      '[^[:alnum:].+#/-]', '', 'g'
+    ),
+    '-{2,}', '-', 'g'
+  ));
+$$;
+
+-- 2. Merges match spellings here rather than taking them from the caller,
+--    who can't see other members' private conversations. source_tags and
+--    target_tag are normalized; every tag that normalizes to one of them
+--    becomes the target.
+drop function merge_team_tags(text, text, text[], text, text[]);
+
+create function merge_team_tags(
+  team_id_filter text,
+  member_id text,
+  source_tags text[],
+  target_tag text
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  folded text[] := array_append(source_tags, target_tag);
+  changed int;
+begin
+  -- Members of the team, or an admin with the service key
+  if not (
+    team_id_filter in (select current_member_teams())
+    or coalesce(
+      nullif(current_setting('request.jwt.claims', true), '')::json ->> 'role',
+      ''
+    ) = 'service_role'
+  ) then
+    raise exception 'Not a member of team %', team_id_filter;
+  end if;
+
+  update conversations c
+  set tags = array(
+    select merged.tag
+    from (
+      select
+        case when normalize_tag(u.tag) = any(folded) then target_tag else u.tag end as tag,
+        min(u.position) as position
+      from unnest(c.tags) with ordinality as u(tag, position)
+      group by 1
+    ) merged
+    order by merged.position
+  )
+  where c.team_id = team_id_filter
+    and exists (
+      select 1 from unnest(c.tags) as t(tag)
+      where normalize_tag(t.tag) = any(folded) and t.tag <> target_tag
+    );
+
+  get diagnostics changed = row_count;
+
+  insert into tags (team_id, name, aliases, updated_by)
+  values (
+    team_id_filter,
+    target_tag,
+    array(
+      select distinct a.alias
+      from (
+        select unnest(source_tags) as alias
+        union
+        select unnest(t.aliases)
+        from tags t
+        where t.team_id = team_id_filter
+          and t.name = any(folded)
+      ) a
+      where a.alias <> target_tag
+      order by a.alias
+    ),
+    coalesce(current_member_id(), member_id)
+  )
+  on conflict (team_id, name) do update
+  set aliases = excluded.aliases,
+      updated_by = excluded.updated_by,
+      updated_at = now();
+
+  delete from tags
+  where team_id = team_id_filter
+    and name = any(source_tags)
+    and name <> target_tag;
+
+  return changed;
+end;
+$$;
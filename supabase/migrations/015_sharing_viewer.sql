@@ -0,0 +1,46 @@
+-- ============================================
+-- LYTICS MCP - Check shares for the caller, not a viewer they name
+-- Run this in Supabase SQL Editor after 014_tag_normalization.sql
+-- ============================================
+
+-- conversation_shared_with() is security definer and callable through
+-- PostgREST, so a viewer passed in would let any member ask who a
+-- conversation is shared with. Members are checked as themselves; only
+-- an admin with the service key, whose server has no member token, can
+-- name the viewer.
+create or replace function conversation_shared_with(conversation uuid, viewer text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with caller as (
+    select case
+      when coalesce(
+        nullif(current_setting('request.jwt.claims', true), '')::json ->> 'role',
+        ''
+      ) = 'service_role' then viewer
+      else current_member_id()
+    end as id
+  )
+  select exists (
+    select 1
+    from conversation_shares s
+    join conversations c on c.id = s.conversation_id
+    cross join caller
+    where s.conversation_id = conversation
+      and (
+        (s.principal_type = 'user' and s.principal = caller.id)
+        or (
+          s.principal_type = 'group'
+          and exists (
+            select 1 from group_members gm
+            where gm.team_id = c.team_id
+              and gm.group_name = s.principal
+              and gm.user_id = caller.id
+          )
+        )
+      )
+  );
+$$;
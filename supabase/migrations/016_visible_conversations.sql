@@ -0,0 +1,24 @@
+-- ============================================
+-- LYTICS MCP - List the conversations a member can see
+-- Run this in Supabase SQL Editor after 015_sharing_viewer.sql
+-- ============================================
+
+-- Public conversations, the viewer's own and those shared with them
+-- (sessions through their thread root). The server filters, orders and
+-- pages the result like a table instead of writing the viewer into an
+-- or() filter. Runs with the caller's rights, so row-level security
+-- still applies to members.
+create or replace function visible_conversations(team_id_filter text, viewer text)
+returns setof conversations
+language sql
+stable
+as $$
+  select c.*
+  from conversations c
+  where c.team_id = team_id_filter
+    and (
+      c.is_public = true
+      or c.user_id = viewer
+      or conversation_shared_with(coalesce(c.parent_id, c.id), viewer)
+    );
+$$;
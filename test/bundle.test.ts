@@ -0,0 +1,158 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import {
+  ExportConversationsSchema,
+  ImportConversationsSchema,
+  exportConversations,
+  importConversations,
+} from "../src/tools/bundle.js";
+import { embedChunks } from "../src/tools/save.js";
+
+const TEAM = "team";
+const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+
+describe("exporting and importing bundles", () => {
+  let dir: string;
+  let source: LocalDB;
+  let root: string;
+  let followUp: string;
+
+  async function save(
+    db: LocalDB,
+    userId: string,
+    title: string,
+    extra: { id?: string; parent_id?: string; thread_position?: number; is_public?: boolean } = {}
+  ): Promise<string> {
+    const content = `Notes on ${title}.`;
+    const chunks = await embedChunks(title, content, embeddings);
+    return db.saveConversation({
+      user_id: userId,
+      team_id: TEAM,
+      title,
+      content,
+      embedding: chunks[0].embedding,
+      chunks,
+      is_public: true,
+      tags: ["ops"],
+      ...extra,
+    });
+  }
+
+  async function exportTo(name: string, format: "markdown" | "jsonl"): Promise<string> {
+    const path = join(dir, name);
+    await exportConversations(
+      ExportConversationsSchema.parse({ path, format }),
+      source,
+      TEAM,
+      "alice"
+    );
+    return path;
+  }
+
+  function importInto(db: LocalDB, path: string, options: Record<string, unknown> = {}, userId = "alice") {
+    return importConversations(
+      ImportConversationsSchema.parse({ path, ...options }),
+      db,
+      embeddings,
+      TEAM,
+      userId
+    );
+  }
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-bundle-"));
+    source = new LocalDB(join(dir, "source.json"));
+    root = await save(source, "alice", "Flaky deploys");
+    followUp = await save(source, "alice", "Flaky deploys, part 2", {
+      parent_id: root,
+      thread_position: 1,
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each(["markdown", "jsonl"] as const)("round-trips threads through %s", async (format) => {
+    const path = await exportTo(format === "jsonl" ? "bundle.jsonl" : "bundle", format);
+    const target = new LocalDB(join(dir, "target.json"));
+
+    expect(await importInto(target, path)).toEqual({ imported: 2, overwritten: 0, skipped: 0, failed: [] });
+    expect(await target.getConversation(root, TEAM, "alice")).toMatchObject({
+      title: "Flaky deploys",
+      tags: ["ops"],
+      parent_id: null,
+    });
+    expect((await target.getThreadSessions(root, TEAM, "alice")).map((c) => [c.id, c.thread_position])).toEqual([
+      [followUp, 1],
+    ]);
+  });
+
+  it("skips entries that already exist", async () => {
+    const path = await exportTo("bundle.jsonl", "jsonl");
+
+    expect(await importInto(source, path)).toMatchObject({ imported: 0, skipped: 2 });
+    expect(await source.listConversations(TEAM, "alice")).toHaveLength(1);
+  });
+
+  it("overwrites only the importer's own entries", async () => {
+    const target = new LocalDB(join(dir, "target.json"));
+    await save(target, "alice", "Old title", { id: root });
+    await save(target, "bob", "Bob's copy", { id: followUp });
+    const path = await exportTo("bundle.jsonl", "jsonl");
+
+    const result = await importInto(target, path, { on_conflict: "overwrite" });
+
+    expect(result).toMatchObject({ imported: 0, overwritten: 1, skipped: 0 });
+    expect(result.failed).toEqual([
+      { id: followUp, title: "Flaky deploys, part 2", error: "Conversation exists and belongs to someone else" },
+    ]);
+    expect((await target.getConversation(root, TEAM, "alice"))?.title).toBe("Flaky deploys");
+    expect((await target.getConversation(followUp, TEAM, "bob"))?.title).toBe("Bob's copy");
+  });
+
+  it("imports conflicting entries under new IDs and re-points their sessions", async () => {
+    const path = await exportTo("bundle.jsonl", "jsonl");
+
+    expect(await importInto(source, path, { on_conflict: "new_id" })).toMatchObject({ imported: 2 });
+
+    const copy = (await source.listConversations(TEAM, "alice")).find((c) => c.id !== root)!;
+    expect(copy.title).toBe("Flaky deploys");
+    const sessions = await source.getThreadSessions(copy.id, TEAM, "alice");
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].id).not.toBe(followUp);
+    expect(sessions[0].parent_id).toBe(copy.id);
+    // The original thread is untouched
+    expect((await source.getThreadSessions(root, TEAM, "alice")).map((c) => c.id)).toEqual([followUp]);
+  });
+
+  it("gives every entry a new ID and keeps threads when IDs aren't preserved", async () => {
+    const path = await exportTo("bundle", "markdown");
+    const target = new LocalDB(join(dir, "target.json"));
+
+    expect(await importInto(target, path, { preserve_ids: false })).toMatchObject({ imported: 2 });
+
+    const [copy] = await target.listConversations(TEAM, "alice");
+    expect(copy.id).not.toBe(root);
+    expect((await target.getThreadSessions(copy.id, TEAM, "alice")).map((c) => c.title)).toEqual([
+      "Flaky deploys, part 2",
+    ]);
+  });
+
+  it("refuses embeddings in markdown bundles", async () => {
+    await expect(
+      exportConversations(
+        ExportConversationsSchema.parse({ path: join(dir, "bundle"), include_embeddings: true }),
+        source,
+        TEAM,
+        "alice"
+      )
+    ).rejects.toThrow("Embeddings can only be exported in the jsonl format");
+  });
+});
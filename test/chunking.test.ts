@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { chunkContent } from "../src/embeddings/chunking.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import { embedChunks } from "../src/tools/save.js";
+
+describe("chunkContent", () => {
+  it("keeps a short conversation in one chunk", () => {
+    expect(chunkContent("**User**\n\nHi\n\n---\n\n**Cursor**\n\nHello")).toEqual([
+      { index: 0, content: "**User**\n\nHi\n\n**Cursor**\n\nHello" },
+    ]);
+  });
+
+  it("splits at turns and packs small sections up to the limit", () => {
+    const turn = (speaker: string, text: string) => `**${speaker}**\n\n${text}`;
+    const content = [
+      turn("User", "a".repeat(40)),
+      turn("Cursor", "b".repeat(40)),
+      turn("User", "c".repeat(40)),
+    ].join("\n\n---\n\n");
+
+    const chunks = chunkContent(content, { maxChars: 120 });
+    expect(chunks.map((c) => c.index)).toEqual([0, 1]);
+    expect(chunks[0].content).toContain("a".repeat(40));
+    expect(chunks[0].content).toContain("b".repeat(40));
+    expect(chunks[1].content).toBe(turn("User", "c".repeat(40)));
+  });
+
+  it("doesn't split at headings or turn markers inside code fences", () => {
+    const code = ["```md", "## Not a heading", "**User**", "```"].join("\n");
+    const chunks = chunkContent(`## Setup\n\nRun this:\n\n${code}`, { maxChars: 200 });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toContain(code);
+  });
+
+  it("cuts an oversized section at paragraphs, then lines, then characters", () => {
+    const content = [
+      "## Notes",
+      "p".repeat(60),
+      ["l".repeat(30), "m".repeat(30), "n".repeat(30)].join("\n"),
+      "x".repeat(130),
+    ].join("\n\n");
+
+    const chunks = chunkContent(content, { maxChars: 70 });
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(70);
+    }
+    const joined = chunks.map((c) => c.content).join("");
+    for (const part of ["p".repeat(60), "l".repeat(30), "n".repeat(30)]) {
+      expect(joined).toContain(part);
+    }
+    expect(joined.split("x").length - 1).toBe(130);
+  });
+
+  it("returns no chunks for blank content", () => {
+    expect(chunkContent("  \n\n---\n")).toEqual([]);
+  });
+});
+
+describe("searching per chunk", () => {
+  const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+  let dir: string;
+  let db: LocalDB;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-chunks-"));
+    db = new LocalDB(join(dir, "knowledge.json"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function save(title: string, content: string): Promise<string> {
+    const chunks = await embedChunks(title, content, embeddings);
+    return db.saveConversation({
+      user_id: "alice",
+      team_id: "team",
+      title,
+      content,
+      embedding: chunks[0].embedding,
+      chunks,
+      is_public: true,
+    });
+  }
+
+  it("finds a passage deep in a long conversation and returns the conversation once", async () => {
+    const filler = Array.from(
+      { length: 12 },
+      (_, i) => `## Part ${i}\n\n${"Unrelated discussion of the release schedule. ".repeat(31)}`
+    );
+    const id = await save("Release notes", [
+      ...filler,
+      "## Fix\n\nThe websocket heartbeat interval was raised to thirty seconds.",
+    ].join("\n\n"));
+
+    const query = "websocket heartbeat interval";
+    const embedding = await embeddings.generateEmbedding(query);
+    const similar = await db.searchSimilar(embedding, "team", "alice", 5, true, {
+      minSimilarity: 0.1,
+    });
+    const keyword = await db.searchKeyword(query, "team", "alice", 5, true);
+
+    for (const results of [similar, keyword]) {
+      expect(results.map((r) => r.id)).toEqual([id]);
+      expect(results[0].matched_passage).toContain("websocket heartbeat interval");
+      expect(results[0].matched_chunk_index).toBeGreaterThan(0);
+    }
+  });
+});
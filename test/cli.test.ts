@@ -0,0 +1,103 @@
+import { execFile } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { randomUUID } from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import { embedChunks } from "../src/tools/save.js";
+
+const CLI = fileURLToPath(new URL("../src/cli.ts", import.meta.url));
+
+interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+describe("lytics-team-mcp delete", () => {
+  const team = "cli-team";
+  const user = "alice";
+  let home: string;
+  let storePath: string;
+  let db: LocalDB;
+
+  // The CLI as a member runs it: local storage, with the user ID in ~/.lytics-mcp
+  function cli(...args: string[]): Promise<CliResult> {
+    const env = {
+      ...process.env,
+      HOME: home,
+      STORAGE_BACKEND: "local",
+      LOCAL_STORE_PATH: storePath,
+      EMBEDDING_PROVIDER: "hashing",
+      TEAM_ID: team,
+    };
+    return new Promise((resolve) => {
+      // tsx runs the TypeScript source, so the test doesn't need a build
+      execFile(
+        process.execPath,
+        ["--import", "tsx", CLI, ...args],
+        { env },
+        (error, stdout, stderr) => {
+          resolve({ code: typeof error?.code === "number" ? error.code : 0, stdout, stderr });
+        }
+      );
+    });
+  }
+
+  async function save(userId: string, title: string): Promise<string> {
+    const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+    const chunks = await embedChunks(title, "Some notes.", embeddings);
+    return db.saveConversation({
+      user_id: userId,
+      team_id: team,
+      title,
+      content: "Some notes.",
+      embedding: chunks[0].embedding,
+      chunks,
+      is_public: true,
+    });
+  }
+
+  beforeAll(() => {
+    home = mkdtempSync(join(tmpdir(), "lytics-cli-"));
+    mkdirSync(join(home, ".lytics-mcp"));
+    writeFileSync(join(home, ".lytics-mcp", "user-id.txt"), user, "utf-8");
+    storePath = join(home, "knowledge.json");
+    db = new LocalDB(storePath);
+  });
+
+  afterAll(() => {
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it("deletes an owned conversation", async () => {
+    const id = await save(user, "Mine");
+
+    const result = await cli("delete", id);
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain(`Deleted ${id}`);
+    expect(await db.getConversation(id, team, user)).toBeNull();
+  });
+
+  it("fails for a conversation that doesn't exist", async () => {
+    const result = await cli("delete", randomUUID());
+    expect(result.code).toBe(1);
+    expect(result.stdout).toContain(
+      "Failed to delete: conversation not found or you don't own it."
+    );
+  });
+
+  it("fails for another member's conversation and keeps it", async () => {
+    const id = await save("bob", "Bob's");
+
+    const result = await cli("delete", id, "--json");
+    expect(result.code).toBe(1);
+    expect(JSON.parse(result.stdout)).toEqual({ success: false });
+    expect(await db.getConversation(id, team, user)).not.toBeNull();
+  });
+});
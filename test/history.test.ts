@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import {
+  diffConversationVersions,
+  getConversationHistory,
+  restoreConversationVersion,
+} from "../src/tools/history.js";
+import {
+  SaveConversationSchema,
+  UpdateConversationSchema,
+  saveConversation,
+  updateConversation,
+} from "../src/tools/save.js";
+
+const TEAM = "team";
+const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+
+describe("conversation history", () => {
+  let dir: string;
+  let db: LocalDB;
+  let id: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-history-"));
+    db = new LocalDB(join(dir, "knowledge.json"));
+
+    // Version 1 has neither a summary nor a repository
+    const saved = await saveConversation(
+      SaveConversationSchema.parse({
+        title: "Cache invalidation",
+        content: "We clear the cache on every deploy.",
+        tags: ["cache"],
+        is_public: false,
+        generate_summary: false,
+        auto_find_export: false,
+      }),
+      db,
+      embeddings,
+      TEAM,
+      "alice"
+    );
+    id = saved.id!;
+
+    // Version 2 adds them
+    await updateConversation(
+      UpdateConversationSchema.parse({
+        id,
+        title: "Cache invalidation on deploy",
+        content: "We clear only the changed keys on deploy.",
+        summary: "Problem: Stale cache",
+        tags: ["cache", "deploy"],
+        repo_context: "acme/web",
+      }),
+      db,
+      embeddings,
+      TEAM,
+      "alice"
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lists the revisions without their content, oldest first", async () => {
+    const history = await getConversationHistory({ id }, db, TEAM, "alice");
+
+    expect(history?.map((v) => [v.version, v.title, v.is_current])).toEqual([
+      [1, "Cache invalidation", false],
+      [2, "Cache invalidation on deploy", true],
+    ]);
+    expect(history?.[0]).not.toHaveProperty("content");
+  });
+
+  it("diffs metadata and content between two versions", async () => {
+    const result = await diffConversationVersions({ id, from_version: 1 }, db, TEAM, "alice");
+
+    expect(result).toMatchObject({ from_version: 1, to_version: 2 });
+    const lines = result!.diff.split("\n");
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        "-title: Cache invalidation",
+        "+title: Cache invalidation on deploy",
+        "-tags: cache",
+        "+tags: cache, deploy",
+        "+repo: acme/web",
+        " files: ",
+        "-We clear the cache on every deploy.",
+        "+We clear only the changed keys on deploy.",
+      ])
+    );
+  });
+
+  it("reports versions that don't exist", async () => {
+    await expect(
+      diffConversationVersions({ id, from_version: 1, to_version: 5 }, db, TEAM, "alice")
+    ).rejects.toThrow("Version not found. Available versions: 1-2");
+  });
+
+  it("restores a version exactly, bringing back a null summary and repository", async () => {
+    const result = await restoreConversationVersion({ id, version: 1 }, db, embeddings, TEAM, "alice");
+    expect(result).toEqual({ success: true, restored_version: 1 });
+
+    const restored = await db.getConversation(id, TEAM, "alice");
+    expect(restored).toMatchObject({
+      title: "Cache invalidation",
+      content: "We clear the cache on every deploy.",
+      summary: null,
+      repo_context: null,
+      tags: ["cache"],
+    });
+
+    // The restore is itself a revision, so it can be undone
+    const history = await getConversationHistory({ id }, db, TEAM, "alice");
+    expect(history?.map((v) => v.version)).toEqual([1, 2, 3]);
+    expect(history?.[1]).toMatchObject({ summary: "Problem: Stale cache", repo_context: "acme/web" });
+  });
+
+  it("keeps the history of a private conversation from other members", async () => {
+    expect(await getConversationHistory({ id }, db, TEAM, "bob")).toBeNull();
+    expect(await diffConversationVersions({ id, from_version: 1 }, db, TEAM, "bob")).toBeNull();
+    expect(
+      await restoreConversationVersion({ id, version: 1 }, db, embeddings, TEAM, "bob")
+    ).toEqual({ success: false });
+  });
+});
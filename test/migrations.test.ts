@@ -0,0 +1,77 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { checkSchema, loadMigrations } from "../src/db/migrations.js";
+import type { KnowledgeStore } from "../src/db/store.js";
+
+describe("loadMigrations", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-migrations-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("orders migrations by number and leaves out the reset script and other files", () => {
+    writeFileSync(join(dir, "010_later.sql"), "select 10;");
+    writeFileSync(join(dir, "000_reset.sql"), "drop table everything;");
+    writeFileSync(join(dir, "002_second.sql"), "select 2;");
+    writeFileSync(join(dir, "001_first.sql"), "select 1;");
+    writeFileSync(join(dir, "notes.md"), "# Notes");
+
+    const migrations = loadMigrations(dir);
+    expect(migrations.map((m) => [m.version, m.name])).toEqual([
+      ["001", "first"],
+      ["002", "second"],
+      ["010", "later"],
+    ]);
+    expect(migrations[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("changes the checksum when a file changes", () => {
+    writeFileSync(join(dir, "001_first.sql"), "select 1;");
+    const before = loadMigrations(dir)[0].checksum;
+    writeFileSync(join(dir, "001_first.sql"), "select 1; -- edited");
+
+    expect(loadMigrations(dir)[0].checksum).not.toBe(before);
+  });
+
+  it("ships a numbered, gap-free set of migrations", () => {
+    const versions = loadMigrations().map((m) => Number(m.version));
+    expect(versions).toEqual(versions.map((_, i) => i + 1));
+  });
+});
+
+describe("checkSchema", () => {
+  const versions = loadMigrations().map((m) => m.version);
+
+  function storeWith(applied: string[] | null): KnowledgeStore {
+    return { appliedMigrations: async () => applied } as unknown as KnowledgeStore;
+  }
+
+  it("passes when every migration is applied", async () => {
+    await expect(checkSchema(storeWith(versions))).resolves.toBeUndefined();
+  });
+
+  it("skips stores without a tracked schema", async () => {
+    await expect(checkSchema(storeWith(null))).resolves.toBeUndefined();
+  });
+
+  it("asks for a migration when the database is behind", async () => {
+    const last = versions[versions.length - 1];
+    await expect(checkSchema(storeWith(versions.slice(0, -1)))).rejects.toThrow(
+      `migration(s) ${last} haven't been applied. Ask an admin to run \`lytics-team-mcp migrate\``
+    );
+  });
+
+  it("asks for an upgrade when the database is ahead", async () => {
+    await expect(checkSchema(storeWith([...versions, "999"]))).rejects.toThrow(
+      "it has migration(s) 999, which this version doesn't know. Upgrade lytics-team-mcp."
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import { PGlite } from "@electric-sql/pglite";
+import { vector } from "@electric-sql/pglite-pgvector";
+
+import { loadMigrations } from "../src/db/migrations.js";
+
+/**
+ * An in-memory Postgres with every migration applied, for testing the SQL
+ * the Supabase backend relies on. Supabase provides the anon and
+ * authenticated roles the policies grant to.
+ */
+export async function migratedDatabase(): Promise<PGlite> {
+  const db = new PGlite({ extensions: { vector } });
+  await db.exec("create role anon; create role authenticated;");
+  for (const migration of loadMigrations()) {
+    await db.exec(migration.sql);
+  }
+  return db;
+}
+
+/**
+ * Make the following statements run as the member holding this API token,
+ * the way PostgREST passes request headers
+ */
+export async function signInAs(db: PGlite, token: string): Promise<void> {
+  await db.query("select set_config('request.jwt.claims', '', false)");
+  await db.query("select set_config('request.headers', $1, false)", [
+    JSON.stringify({ "x-lytics-token": token }),
+  ]);
+}
+
+/**
+ * Make the following statements run with the service key
+ */
+export async function signInAsService(db: PGlite): Promise<void> {
+  await db.query("select set_config('request.headers', '', false)");
+  await db.query("select set_config('request.jwt.claims', $1, false)", [
+    JSON.stringify({ role: "service_role" }),
+  ]);
+}
+
+/**
+ * Add a member to a team and return their API token
+ */
+export async function addMember(db: PGlite, teamId: string, userId: string): Promise<string> {
+  const { rows } = await db.query<{ token: string | null }>(
+    "select add_team_member($1, $2) as token",
+    [teamId, userId]
+  );
+  return rows[0].token!;
+}
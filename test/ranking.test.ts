@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { bm25Scores, cosineSimilarity, reciprocalRankFusion, tokenize } from "../src/db/ranking.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import { embedChunks } from "../src/tools/save.js";
+
+describe("tokenize", () => {
+  it("keeps identifiers with underscores whole", () => {
+    expect(tokenize("Got ERR_CONNECTION_REFUSED on port 5432!")).toEqual([
+      "got",
+      "err_connection_refused",
+      "on",
+      "port",
+      "5432",
+    ]);
+  });
+});
+
+describe("bm25Scores", () => {
+  it("scores documents without a query term zero", () => {
+    expect(bm25Scores("redis", ["postgres pooling", "mysql replicas"])).toEqual([0, 0]);
+    expect(bm25Scores("", ["anything"])).toEqual([0]);
+    expect(bm25Scores("redis", [])).toEqual([]);
+  });
+
+  it("ranks more occurrences of a term higher", () => {
+    const [once, twice] = bm25Scores("timeout", [
+      "the request hit a timeout after a while",
+      "timeout after timeout after a while",
+    ]);
+    expect(twice).toBeGreaterThan(once);
+  });
+
+  it("ranks rare terms above common ones", () => {
+    const documents = [
+      "deploy failed with the cache",
+      "deploy failed again",
+      "deploy worked",
+      "the segfault in the parser",
+    ];
+    const scores = bm25Scores("deploy segfault", documents);
+    expect(scores.indexOf(Math.max(...scores))).toBe(3);
+  });
+
+  it("favours the shorter document for the same term count", () => {
+    const [short, long] = bm25Scores("migration", [
+      "migration failed",
+      "migration failed while the team was discussing many other unrelated topics at length",
+    ]);
+    expect(short).toBeGreaterThan(long);
+  });
+
+  it("counts each query term once", () => {
+    expect(bm25Scores("cache cache cache", ["cache miss"])).toEqual(
+      bm25Scores("cache", ["cache miss"])
+    );
+  });
+});
+
+describe("reciprocalRankFusion", () => {
+  it("ranks ids found by both lists above ids found by one", () => {
+    const scores = reciprocalRankFusion([
+      ["a", "b", "c"],
+      ["c", "d", "a"],
+    ]);
+    const order = [...scores.entries()].sort((x, y) => y[1] - x[1]).map(([id]) => id);
+    expect(order).toEqual(["a", "c", "b", "d"]);
+  });
+
+  it("sums 1 / (k + rank) with ranks from 1", () => {
+    const scores = reciprocalRankFusion([["a", "b"], ["b"]], 10);
+    expect(scores.get("a")).toBeCloseTo(1 / 11);
+    expect(scores.get("b")).toBeCloseTo(1 / 12 + 1 / 11);
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("is 1 for the same direction, 0 for orthogonal or empty vectors", () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe("hybrid search", () => {
+  const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+  let dir: string;
+  let db: LocalDB;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-ranking-"));
+    db = new LocalDB(join(dir, "knowledge.json"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function save(title: string, content: string): Promise<string> {
+    const chunks = await embedChunks(title, content, embeddings);
+    return db.saveConversation({
+      user_id: "alice",
+      team_id: "team",
+      title,
+      content,
+      embedding: chunks[0].embedding,
+      chunks,
+      is_public: true,
+    });
+  }
+
+  it("finds an exact error code that only keyword search matches", async () => {
+    const exact = await save("Port clash", "Saw ERR_ADDR_IN_USE when starting the dev server.");
+    await save("Dev server start", "Starting the dev server is slow when starting cold.");
+
+    const query = "ERR_ADDR_IN_USE";
+    const embedding = await embeddings.generateEmbedding("starting the dev server");
+    const results = await db.searchHybrid(query, embedding, "team", "alice", 5, true, {
+      minSimilarity: 0.1,
+    });
+
+    expect(results.map((r) => r.id)).toContain(exact);
+    const hit = results.find((r) => r.id === exact)!;
+    // The keyword passage is preferred: it holds the term that was asked for
+    expect(hit.matched_passage).toContain("ERR_ADDR_IN_USE");
+  });
+});
@@ -0,0 +1,101 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import { GetConversationSchema, getConversation, selectTurns } from "../src/tools/retrieve.js";
+import { SaveConversationSchema, saveConversation } from "../src/tools/save.js";
+
+const TEAM = "team";
+const USER = "alice";
+
+const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+
+function cursorChat(...turns: [speaker: "User" | "Cursor", text: string][]): string {
+  return turns.map(([speaker, text]) => `**${speaker}**\n\n${text}`).join("\n\n---\n\n");
+}
+
+describe("Cursor transcripts", () => {
+  let dir: string;
+  let db: LocalDB;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-turns-"));
+    db = new LocalDB(join(dir, "knowledge.json"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function save(content: string, extra: Record<string, unknown> = {}) {
+    const input = SaveConversationSchema.parse({
+      title: "Flaky upload test",
+      content,
+      auto_find_export: false,
+      on_duplicate: "force",
+      ...extra,
+    });
+    return saveConversation(input, db, embeddings, TEAM, USER);
+  }
+
+  async function thread(id: string) {
+    return (await getConversation(GetConversationSchema.parse({ id }), db, TEAM, USER))!;
+  }
+
+  it("numbers turns across the sessions of a thread", async () => {
+    const first = await save(
+      cursorChat(["User", "Why does the upload test fail?"], ["Cursor", "It races the server."])
+    );
+    await save(cursorChat(["User", "Still flaky."], ["Cursor", "Await the listen callback."]), {
+      parent_id: first.id,
+    });
+
+    const selected = selectTurns(await thread(first.id!), { turns: [2, 3] })!;
+    expect(selected.total_turns).toBe(4);
+    expect(selected.turns.map((t) => [t.turn, t.role, t.content])).toEqual([
+      [2, "assistant", "It races the server."],
+      [3, "user", "Still flaky."],
+    ]);
+    expect(selected.turns[1].conversation_id).not.toBe(first.id);
+
+    const final = selectTurns(await thread(first.id!), { final_answer: true })!;
+    expect(final.turns.map((t) => [t.turn, t.content])).toEqual([[4, "Await the listen callback."]]);
+  });
+
+  it("has no turns for content that isn't a transcript", async () => {
+    const { id } = await save("We decided to retry uploads three times.");
+    expect(selectTurns(await thread(id!), { final_answer: true })).toBeNull();
+  });
+
+  it("warns about a transcript ending in an unanswered question", async () => {
+    const { warnings } = await save(
+      cursorChat(["User", "Why?"], ["Cursor", "A race."], ["User", "How do I fix it?"])
+    );
+    expect(warnings).toEqual([
+      "The transcript ends with a question that has no answer. The export may be incomplete.",
+    ]);
+  });
+
+  it("warns about replies that mention code without quoting any", async () => {
+    const { warnings } = await save(
+      cursorChat(["User", "Fix it?"], ["Cursor", "Change the helper function to await the server."])
+    );
+    expect(warnings).toEqual([
+      "Replies mention code but the transcript contains no code blocks. The conversation may be incomplete.",
+    ]);
+  });
+
+  it("doesn't warn about a complete transcript with code", async () => {
+    const { warnings } = await save(
+      cursorChat(
+        ["User", "Fix it?"],
+        ["Cursor", "Change the helper function:\n\n```ts\nawait listen();\n```"]
+      )
+    );
+    expect(warnings).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import {
+  SaveConversationSchema,
+  UpdateConversationSchema,
+  saveConversation,
+  updateConversation,
+} from "../src/tools/save.js";
+
+const TEAM = "team";
+const USER = "alice";
+
+const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+
+function cursorExport(title: string, answer: string): string {
+  return [
+    `# ${title}`,
+    "**User**",
+    "How do I fix this?",
+    "---",
+    "**Cursor**",
+    answer,
+  ].join("\n\n");
+}
+
+function chatgptConversation(title: string, update_time: number, answer: string) {
+  return {
+    title,
+    update_time,
+    current_node: "b",
+    mapping: {
+      a: {
+        parent: null,
+        message: { author: { role: "user" }, content: { content_type: "text", parts: ["Question?"] } },
+      },
+      b: {
+        parent: "a",
+        message: { author: { role: "assistant" }, content: { content_type: "text", parts: [answer] } },
+      },
+    },
+  };
+}
+
+describe("saving with auto_find_export", () => {
+  let dir: string;
+  let db: LocalDB;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-save-"));
+    db = new LocalDB(join(dir, "store", "knowledge.json"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function save(title: string, content: string) {
+    const input = SaveConversationSchema.parse({ title, content, on_duplicate: "force" });
+    const result = await saveConversation(input, db, embeddings, TEAM, USER, {
+      workspacePath: dir,
+    });
+    return { result, saved: await db.getConversation(result.id!, TEAM, USER) };
+  }
+
+  it("uses the most recently modified export, not the largest", async () => {
+    const older = join(dir, "cursor_old.md");
+    writeFileSync(older, cursorExport("Old", "A long answer. ".repeat(200)));
+    utimesSync(older, new Date("2020-01-01"), new Date("2020-01-01"));
+    writeFileSync(join(dir, "cursor_new.md"), cursorExport("New", "The newest answer. ".repeat(20)));
+
+    const { result, saved } = await save("Something else", "short");
+    expect(result.source).toContain("cursor_new.md");
+    expect(saved?.content).toContain("The newest answer.");
+  });
+
+  it("ignores a multi-conversation export without a conversation of that title", async () => {
+    writeFileSync(
+      join(dir, "conversations.json"),
+      JSON.stringify([
+        chatgptConversation("Unrelated chat", 2, "Unrelated answer. ".repeat(100)),
+        chatgptConversation("Another chat", 1, "Another answer. ".repeat(100)),
+      ])
+    );
+
+    const { result, saved } = await save("Rate limiting", "Notes about rate limiting.");
+    expect(result.source).toBe("direct");
+    expect(saved?.content).toBe("Notes about rate limiting.");
+  });
+
+  it("uses the conversation of a multi-conversation export that has the title", async () => {
+    writeFileSync(
+      join(dir, "conversations.json"),
+      JSON.stringify([
+        chatgptConversation("Unrelated chat", 2, "Unrelated answer. ".repeat(100)),
+        chatgptConversation("Rate limiting", 1, "Use a token bucket. ".repeat(100)),
+      ])
+    );
+
+    const { result, saved } = await save("Rate limiting", "short");
+    expect(result.source).toContain("chatgpt");
+    expect(saved?.content).toContain("Use a token bucket.");
+    expect(saved?.content).not.toContain("Unrelated answer.");
+  });
+
+  it("skips exports larger than the size cap", async () => {
+    writeFileSync(join(dir, "cursor_huge.md"), cursorExport("Huge", "x".repeat(6 * 1024 * 1024)));
+
+    const { result } = await save("Something", "short");
+    expect(result.source).toBe("direct");
+  });
+});
+
+describe("updating a conversation", () => {
+  let dir: string;
+  let db: LocalDB;
+  let id: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-update-"));
+    db = new LocalDB(join(dir, "knowledge.json"));
+    const input = SaveConversationSchema.parse({
+      title: "Retries",
+      content: "**User**\n\nShould we retry?\n\n---\n\n**Cursor**\n\nUse exponential backoff.",
+      auto_find_export: false,
+    });
+    id = (await saveConversation(input, db, embeddings, TEAM, USER)).id!;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports only the fields the caller can set", async () => {
+    const result = await updateConversation(
+      UpdateConversationSchema.parse({ id, append_content: "**User**\n\nAnd jitter?", tags: ["Retries"] }),
+      db,
+      embeddings,
+      TEAM,
+      USER
+    );
+
+    expect(result.reembedded).toBe(true);
+    expect(result.updated_fields).toEqual(["content", "summary", "tags"]);
+  });
+
+  it("reports a title change without content", async () => {
+    const result = await updateConversation(
+      UpdateConversationSchema.parse({ id, title: "Retry policy" }),
+      db,
+      embeddings,
+      TEAM,
+      USER
+    );
+
+    expect(result).toMatchObject({ success: true, updated_fields: ["title"], reembedded: true });
+  });
+});
@@ -0,0 +1,202 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { defineGroup, shareConversation } from "../src/tools/share.js";
+import { addMember, migratedDatabase, signInAs, signInAsService } from "./postgres.js";
+
+const TEAM = "team";
+
+describe("sharing conversations", () => {
+  let dir: string;
+  let db: LocalDB;
+  let root: string;
+  let followUp: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-share-"));
+    db = new LocalDB(join(dir, "knowledge.json"));
+    const base = { user_id: "alice", team_id: TEAM, content: "x", embedding: [1, 0, 0], is_public: false };
+    root = await db.saveConversation({ ...base, title: "Incident 42" });
+    followUp = await db.saveConversation({ ...base, title: "Incident 42, day 2", parent_id: root });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function visibleTo(userId: string): Promise<string[]> {
+    const ids: string[] = [];
+    for (const id of [root, followUp]) {
+      if (await db.getConversation(id, TEAM, userId)) ids.push(id);
+    }
+    return ids;
+  }
+
+  it("shares the whole thread with a user, from any of its sessions", async () => {
+    const result = await shareConversation(
+      { id: followUp, users: ["bob"], action: "share" },
+      db,
+      TEAM,
+      "alice"
+    );
+
+    expect(result).toEqual({
+      success: true,
+      thread_id: root,
+      is_public: false,
+      shares: [{ principal_type: "user", principal: "bob" }],
+    });
+    expect(await visibleTo("bob")).toEqual([root, followUp]);
+    expect(await visibleTo("carol")).toEqual([]);
+    expect((await db.listConversations(TEAM, "bob")).map((c) => c.id)).toEqual([root]);
+    expect((await db.getThreadSessions(root, TEAM, "bob")).map((c) => c.id)).toEqual([followUp]);
+  });
+
+  it("shares with a group's current members", async () => {
+    await defineGroup({ name: "oncall", members: ["bob"] }, db, TEAM, "alice");
+    await shareConversation({ id: root, groups: ["oncall"], action: "share" }, db, TEAM, "alice");
+    expect(await visibleTo("bob")).toEqual([root, followUp]);
+
+    // Membership is checked when reading, so leaving the group revokes access
+    await defineGroup({ name: "oncall", members: ["carol"] }, db, TEAM, "alice");
+    expect(await visibleTo("bob")).toEqual([]);
+    expect(await visibleTo("carol")).toEqual([root, followUp]);
+  });
+
+  it("ignores a group of the same name in another team", async () => {
+    await defineGroup({ name: "oncall", members: [] }, db, TEAM, "alice");
+    await defineGroup({ name: "oncall", members: ["bob"] }, db, "other", "bob");
+    await shareConversation({ id: root, groups: ["oncall"], action: "share" }, db, TEAM, "alice");
+
+    expect(await visibleTo("bob")).toEqual([]);
+  });
+
+  it("revokes a share", async () => {
+    await shareConversation({ id: root, users: ["bob", "carol"], action: "share" }, db, TEAM, "alice");
+    const result = await shareConversation(
+      { id: root, users: ["bob"], action: "unshare" },
+      db,
+      TEAM,
+      "alice"
+    );
+
+    expect(result.shares).toEqual([{ principal_type: "user", principal: "carol" }]);
+    expect(await visibleTo("bob")).toEqual([]);
+  });
+
+  it("lets only the owner share", async () => {
+    await shareConversation({ id: root, users: ["bob"], action: "share" }, db, TEAM, "alice");
+
+    expect(
+      await shareConversation({ id: root, users: ["carol"], action: "share" }, db, TEAM, "bob")
+    ).toEqual({ success: false });
+    expect(await visibleTo("carol")).toEqual([]);
+  });
+
+  it("refuses unknown groups and empty requests", async () => {
+    await expect(
+      shareConversation({ id: root, groups: ["nope"], action: "share" }, db, TEAM, "alice")
+    ).rejects.toThrow("Group not found: nope");
+    await expect(
+      shareConversation({ id: root, action: "share" }, db, TEAM, "alice")
+    ).rejects.toThrow("Provide at least one user or group");
+  });
+
+  it("lets only a group's creator change it", async () => {
+    await defineGroup({ name: "oncall", members: ["alice"] }, db, TEAM, "alice");
+    await expect(
+      defineGroup({ name: "oncall", members: ["bob"] }, db, TEAM, "bob")
+    ).rejects.toThrow("Only the group's creator (alice) can change \"oncall\"");
+  });
+});
+
+describe("conversation_shared_with in Postgres", () => {
+  const conversation = "00000000-0000-0000-0000-000000000001";
+  let pg: PGlite;
+  let bobToken: string;
+  let carolToken: string;
+
+  beforeAll(async () => {
+    pg = await migratedDatabase();
+    await addMember(pg, "team", "alice");
+    bobToken = await addMember(pg, "team", "bob");
+    carolToken = await addMember(pg, "team", "carol");
+    await addMember(pg, "team", "dave");
+
+    await signInAsService(pg);
+    await pg.exec(`
+      insert into conversations (id, user_id, team_id, title, content, is_public)
+      values ('${conversation}', 'alice', 'team', 'Incident 42', 'x', false);
+      insert into groups (team_id, name, created_by) values ('team', 'oncall', 'alice');
+      insert into group_members (team_id, group_name, user_id) values ('team', 'oncall', 'carol');
+      insert into conversation_shares (conversation_id, principal_type, principal) values
+        ('${conversation}', 'user', 'bob'),
+        ('${conversation}', 'group', 'oncall');
+    `);
+  }, 60_000);
+
+  afterAll(async () => {
+    await pg?.close();
+  });
+
+  async function sharedWith(viewer: string): Promise<boolean> {
+    const { rows } = await pg.query<{ shared: boolean }>(
+      "select conversation_shared_with($1, $2) as shared",
+      [conversation, viewer]
+    );
+    return rows[0].shared;
+  }
+
+  it("checks members directly and through their groups", async () => {
+    await signInAs(pg, bobToken);
+    expect(await sharedWith("bob")).toBe(true);
+    await signInAs(pg, carolToken);
+    expect(await sharedWith("carol")).toBe(true);
+  });
+
+  it("checks the member holding the token, whoever the caller names", async () => {
+    await signInAs(pg, await addMember(pg, "team", "erin"));
+    expect(await sharedWith("bob")).toBe(false);
+    await signInAs(pg, bobToken);
+    expect(await sharedWith("dave")).toBe(true);
+  });
+
+  it("answers no without a member token", async () => {
+    await signInAs(pg, "lmcp_not-a-token");
+    expect(await sharedWith("bob")).toBe(false);
+  });
+
+  it("checks the named viewer for the service key", async () => {
+    await signInAsService(pg);
+    expect(await sharedWith("bob")).toBe(true);
+    expect(await sharedWith("dave")).toBe(false);
+  });
+
+  it("lists public, own and shared conversations with their sessions", async () => {
+    await signInAsService(pg);
+    await pg.exec(`
+      insert into conversations (id, user_id, team_id, title, content, is_public, parent_id, thread_position) values
+        ('00000000-0000-0000-0000-000000000002', 'alice', 'team', 'Incident 42, day 2', 'x', false, '${conversation}', 1),
+        ('00000000-0000-0000-0000-000000000003', 'alice', 'team', 'Runbook', 'x', true, null, 0),
+        ('00000000-0000-0000-0000-000000000004', 'dave', 'team', 'Dave''s notes', 'x', false, null, 0),
+        ('00000000-0000-0000-0000-000000000005', 'carol', 'other', 'Elsewhere', 'x', true, null, 0);
+    `);
+
+    const titles = async (viewer: string) => {
+      const { rows } = await pg.query<{ title: string }>(
+        "select title from visible_conversations('team', $1) order by id",
+        [viewer]
+      );
+      return rows.map((row) => row.title);
+    };
+
+    expect(await titles("bob")).toEqual(["Incident 42", "Incident 42, day 2", "Runbook"]);
+    expect(await titles("dave")).toEqual(["Runbook", "Dave's notes"]);
+    // Filter syntax in a user ID is just an ID that matches nothing
+    expect(await titles("bob,is_public.eq.false")).toEqual(["Runbook"]);
+  });
+});
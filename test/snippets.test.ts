@@ -0,0 +1,147 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import { SaveConversationSchema, saveConversation } from "../src/tools/save.js";
+import { SearchSnippetsSchema, searchSnippets } from "../src/tools/search.js";
+import { extractSnippets, normalizeLanguage } from "../src/transcripts/snippets.js";
+
+const TEAM = "team";
+
+const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+
+describe("extractSnippets", () => {
+  it("keeps each block with the paragraph leading into it", () => {
+    const content = [
+      "Some background.",
+      "",
+      "Retry with backoff like this:",
+      "```ts:src/retry.ts",
+      "await retry(fetchUser, { attempts: 3 });",
+      "```",
+    ].join("\n");
+
+    expect(extractSnippets(content)).toEqual([
+      {
+        position: 0,
+        language: "typescript",
+        file: "src/retry.ts",
+        code: "await retry(fetchUser, { attempts: 3 });",
+        explanation: "Retry with backoff like this:",
+      },
+    ]);
+  });
+
+  it("uses the paragraph after a block that opens a turn", () => {
+    const content = [
+      "**Cursor**",
+      "```sql",
+      "create index on orders (user_id);",
+      "```",
+      "",
+      "This makes the lookup use an index scan.",
+      "",
+      "---",
+      "",
+      "**User**",
+      "Thanks!",
+    ].join("\n");
+
+    expect(extractSnippets(content)[0]).toMatchObject({
+      language: "sql",
+      explanation: "This makes the lookup use an index scan.",
+    });
+  });
+
+  it("doesn't take the next turn for an explanation", () => {
+    const content = ["```bash", "npm ci", "```", "---", "**User**", "What next?"].join("\n");
+    expect(extractSnippets(content)[0].explanation).toBeNull();
+  });
+
+  it("keeps repeated blocks once and skips empty ones", () => {
+    const block = ["```py", "print('hi')", "```"].join("\n");
+    const content = [block, "Again:", block, "```", "   ", "```"].join("\n");
+
+    expect(extractSnippets(content).map((s) => [s.position, s.language, s.code])).toEqual([
+      [0, "python", "print('hi')"],
+    ]);
+  });
+
+  it("normalizes language aliases", () => {
+    expect(["TS", "yml", "C#", "Elixir", ""].map(normalizeLanguage)).toEqual([
+      "typescript",
+      "yaml",
+      "csharp",
+      "elixir",
+      null,
+    ]);
+  });
+});
+
+describe("searchSnippets", () => {
+  let dir: string;
+  let db: LocalDB;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-snippets-"));
+    db = new LocalDB(join(dir, "knowledge.json"));
+
+    const save = (title: string, content: string, is_public: boolean) =>
+      saveConversation(
+        SaveConversationSchema.parse({ title, content, is_public, auto_find_export: false }),
+        db,
+        embeddings,
+        TEAM,
+        "alice"
+      );
+    await save(
+      "Retrying fetches",
+      ["Retry the fetch with exponential backoff:", "```ts", "await retryFetch(url, { backoff: 2 });", "```"].join("\n"),
+      true
+    );
+    await save(
+      "Retrying in Python",
+      ["Retry the fetch with exponential backoff:", "```python", "retry_fetch(url, backoff=2)", "```"].join("\n"),
+      false
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function search(userId: string, input: Record<string, unknown>) {
+    return searchSnippets(
+      SearchSnippetsSchema.parse({
+        query: "retry the fetch with exponential backoff",
+        min_similarity: 0.1,
+        ...input,
+      }),
+      db,
+      embeddings,
+      TEAM,
+      userId
+    );
+  }
+
+  it("filters by language, accepting aliases", async () => {
+    const results = await search("alice", { language: "py", include_private: true });
+    expect(results.map((r) => [r.conversation_title, r.language, r.code])).toEqual([
+      ["Retrying in Python", "python", "retry_fetch(url, backoff=2)"],
+    ]);
+    expect(results[0].explanation).toBe("Retry the fetch with exponential backoff:");
+  });
+
+  it("only includes private snippets for their owner, on request", async () => {
+    const titles = async (userId: string, include_private: boolean) =>
+      (await search(userId, { include_private })).map((r) => r.conversation_title).sort();
+
+    expect(await titles("alice", false)).toEqual(["Retrying fetches"]);
+    expect(await titles("alice", true)).toEqual(["Retrying fetches", "Retrying in Python"]);
+    expect(await titles("bob", true)).toEqual(["Retrying fetches"]);
+  });
+});
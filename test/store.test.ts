@@ -0,0 +1,249 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { randomUUID } from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import type { KnowledgeStore } from "../src/db/store.js";
+import { SupabaseDB } from "../src/db/supabase.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import { embedChunks } from "../src/tools/save.js";
+
+interface Backend {
+  name: string;
+  // Skipped when the backend isn't available here
+  enabled: boolean;
+  open(): KnowledgeStore;
+  close(): void;
+}
+
+let localDir: string | undefined;
+
+// Supabase runs against a migrated project given by SUPABASE_TEST_URL and
+// its service role key in SUPABASE_TEST_KEY
+const backends: Backend[] = [
+  {
+    name: "LocalDB",
+    enabled: true,
+    open() {
+      localDir = mkdtempSync(join(tmpdir(), "lytics-store-"));
+      return new LocalDB(join(localDir, "knowledge.json"));
+    },
+    close() {
+      if (localDir) rmSync(localDir, { recursive: true, force: true });
+    },
+  },
+  {
+    name: "SupabaseDB",
+    enabled: Boolean(process.env.SUPABASE_TEST_URL && process.env.SUPABASE_TEST_KEY),
+    open() {
+      return new SupabaseDB(process.env.SUPABASE_TEST_URL!, process.env.SUPABASE_TEST_KEY!);
+    },
+    close() {},
+  },
+];
+
+const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+
+describe.each(backends)("$name", (backend) => {
+  // A fresh team per run keeps runs against a shared database apart
+  const team = `test-${randomUUID()}`;
+  const alice = `alice-${randomUUID()}`;
+  const bob = `bob-${randomUUID()}`;
+
+  let db: KnowledgeStore;
+  let publicId: string;
+  let privateId: string;
+
+  async function save(
+    userId: string,
+    title: string,
+    content: string,
+    isPublic: boolean,
+    tags: string[] = []
+  ): Promise<string> {
+    const chunks = await embedChunks(title, content, embeddings);
+    return db.saveConversation({
+      user_id: userId,
+      team_id: team,
+      title,
+      content,
+      embedding: chunks[0].embedding,
+      chunks,
+      is_public: isPublic,
+      tags,
+    });
+  }
+
+  beforeAll(async () => {
+    if (!backend.enabled) return;
+    db = backend.open();
+    publicId = await save(
+      alice,
+      "Postgres connection pooling",
+      "The API ran out of postgres connections under load. We put pgbouncer in front of the database in transaction mode.",
+      true,
+      ["database"]
+    );
+    privateId = await save(
+      alice,
+      "Flaky websocket reconnects",
+      "Websocket clients reconnected in a tight loop after deploys. Adding jittered backoff to the reconnect fixed it.",
+      false,
+      ["websocket"]
+    );
+  });
+
+  afterAll(async () => {
+    if (!backend.enabled) return;
+    for (const id of [publicId, privateId]) {
+      if (id) await db.deleteConversation(id, alice, team);
+    }
+    backend.close();
+  });
+
+  describe.skipIf(!backend.enabled)("conversations", () => {
+    it("saves and gets a conversation", async () => {
+      const conversation = await db.getConversation(publicId, team, alice);
+      expect(conversation).toMatchObject({
+        id: publicId,
+        user_id: alice,
+        team_id: team,
+        title: "Postgres connection pooling",
+        is_public: true,
+        tags: ["database"],
+      });
+    });
+
+    it("finds conversations by similarity", async () => {
+      const embedding = await embeddings.generateEmbedding("postgres connections pgbouncer");
+      // Hashed vectors of a short query sit further apart than model embeddings
+      const results = await db.searchSimilar(embedding, team, alice, 5, true, {
+        minSimilarity: 0.1,
+      });
+      expect(results[0]?.id).toBe(publicId);
+      expect(results[0]?.similarity).toBeGreaterThan(0);
+    });
+
+    it("finds conversations by keyword", async () => {
+      const results = await db.searchKeyword("pgbouncer", team, alice, 5, true);
+      expect(results.map((r) => r.id)).toEqual([publicId]);
+    });
+
+    it("finds conversations with hybrid search", async () => {
+      const query = "websocket reconnect backoff";
+      const embedding = await embeddings.generateEmbedding(query);
+      const results = await db.searchHybrid(query, embedding, team, alice, 5, true);
+      expect(results[0]?.id).toBe(privateId);
+    });
+
+    it("lists the team's conversations", async () => {
+      const conversations = await db.listConversations(team, alice);
+      expect(conversations.map((c) => c.id).sort()).toEqual([privateId, publicId].sort());
+    });
+
+    it("filters the list by tag", async () => {
+      const conversations = await db.listConversations(team, alice, { tags: ["websocket"] });
+      expect(conversations.map((c) => c.id)).toEqual([privateId]);
+    });
+  });
+
+  describe.skipIf(!backend.enabled)("visibility", () => {
+    it("hides private conversations from other members", async () => {
+      expect(await db.getConversation(privateId, team, bob)).toBeNull();
+      expect(await db.getConversation(publicId, team, bob)).not.toBeNull();
+
+      const listed = await db.listConversations(team, bob);
+      expect(listed.map((c) => c.id)).toEqual([publicId]);
+    });
+
+    it("leaves private conversations out of other members' searches", async () => {
+      const query = "websocket reconnect backoff";
+      const embedding = await embeddings.generateEmbedding(query);
+
+      const similar = await db.searchSimilar(embedding, team, bob, 5, true, { minSimilarity: 0 });
+      const keyword = await db.searchKeyword("websocket", team, bob, 5, true);
+      const hybrid = await db.searchHybrid(query, embedding, team, bob, 5, true);
+      for (const results of [similar, keyword, hybrid]) {
+        expect(results.map((r) => r.id)).not.toContain(privateId);
+      }
+    });
+
+    it("searches the owner's private conversations only when asked to", async () => {
+      const withPrivate = await db.searchKeyword("websocket", team, alice, 5, true);
+      const publicOnly = await db.searchKeyword("websocket", team, alice, 5, false);
+      expect(withPrivate.map((r) => r.id)).toEqual([privateId]);
+      expect(publicOnly).toEqual([]);
+    });
+
+    it("keeps conversations inside their team", async () => {
+      expect(await db.getConversation(publicId, `other-${team}`, alice)).toBeNull();
+      expect(await db.listConversations(`other-${team}`, alice)).toEqual([]);
+    });
+
+    it("lets the owner change visibility", async () => {
+      expect(await db.updateVisibility(privateId, alice, team, true)).toBe(true);
+      expect(await db.getConversation(privateId, team, bob)).toMatchObject({ is_public: true });
+
+      expect(await db.updateVisibility(privateId, alice, team, false)).toBe(true);
+      expect(await db.getConversation(privateId, team, bob)).toBeNull();
+    });
+
+    it("doesn't let other members change visibility", async () => {
+      expect(await db.updateVisibility(privateId, bob, team, true)).toBe(false);
+      expect(await db.getConversation(privateId, team, bob)).toBeNull();
+    });
+  });
+
+  describe.skipIf(!backend.enabled)("deleting", () => {
+    it("deletes an owned conversation", async () => {
+      const id = await save(alice, "Scratch notes", "Temporary notes about nothing.", false);
+      expect(await db.deleteConversation(id, alice, team)).toBe(true);
+      expect(await db.getConversation(id, team, alice)).toBeNull();
+    });
+
+    it("deletes the sessions of a thread with its root", async () => {
+      const root = await save(alice, "Cache warmup", "Warming the cache on boot.", true);
+      const chunks = await embedChunks("Cache warmup", "Second session.", embeddings);
+      const session = await db.saveConversation({
+        user_id: alice,
+        team_id: team,
+        title: "Cache warmup",
+        content: "Second session.",
+        embedding: chunks[0].embedding,
+        chunks,
+        is_public: true,
+        parent_id: root,
+        thread_position: 1,
+      });
+
+      expect(await db.deleteConversation(root, alice, team)).toBe(true);
+      expect(await db.getConversation(session, team, alice)).toBeNull();
+    });
+
+    it("reports a conversation that doesn't exist", async () => {
+      expect(await db.deleteConversation(randomUUID(), alice, team)).toBe(false);
+    });
+
+    it("doesn't delete another member's conversation", async () => {
+      expect(await db.deleteConversation(publicId, bob, team)).toBe(false);
+      expect(await db.getConversation(publicId, team, alice)).not.toBeNull();
+    });
+  });
+
+  describe.skipIf(!backend.enabled)("tags", () => {
+    it("merges spellings on every member's conversations, private ones included", async () => {
+      const id = await save(bob, "Token refresh", "Refreshing tokens.", false, ["Auth ", "oauth"]);
+
+      expect(await db.mergeTags(team, alice, ["authentication"], "auth")).toBe(1);
+      expect((await db.getConversation(id, team, bob))?.tags).toEqual(["auth", "oauth"]);
+      expect(await db.listTags(team)).toEqual([
+        expect.objectContaining({ name: "auth", aliases: ["authentication"] }),
+      ]);
+
+      await db.deleteConversation(id, bob, team);
+    });
+  });
+});
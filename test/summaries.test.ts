@@ -0,0 +1,209 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { HashingEmbeddingProvider } from "../src/embeddings/hashing.js";
+import { EMBEDDING_DIMENSIONS } from "../src/embeddings/provider.js";
+import { ExtractiveSummarizer } from "../src/summaries/extractive.js";
+import { renderSummary, type Summarizer } from "../src/summaries/summarizer.js";
+import {
+  RegenerateSummarySchema,
+  SaveConversationSchema,
+  regenerateSummary,
+  saveConversation,
+} from "../src/tools/save.js";
+import { parseTranscript } from "../src/transcripts/importer.js";
+
+describe("renderSummary", () => {
+  it("writes labelled lines with list items under their label", () => {
+    expect(
+      renderSummary({
+        problem: "Login loops forever.",
+        root_cause: "The cookie has SameSite=None without Secure.",
+        solution: "Set Secure on the session cookie.",
+        key_decisions: ["Keep cookies over tokens", "Ship behind a flag"],
+        files: ["src/auth.ts"],
+      })
+    ).toBe(
+      [
+        "Problem: Login loops forever.",
+        "Root cause: The cookie has SameSite=None without Secure.",
+        "Solution: Set Secure on the session cookie.",
+        "Key decisions:",
+        "- Keep cookies over tokens",
+        "- Ship behind a flag",
+        "Files:",
+        "- src/auth.ts",
+      ].join("\n")
+    );
+  });
+
+  it("leaves out empty sections", () => {
+    expect(
+      renderSummary({
+        problem: "Slow builds.",
+        root_cause: null,
+        solution: "  ",
+        key_decisions: ["", " "],
+        files: [],
+      })
+    ).toBe("Problem: Slow builds.");
+  });
+
+  it("keeps each value on its own line", () => {
+    expect(
+      renderSummary({
+        problem: "Two\nlines",
+        root_cause: null,
+        solution: null,
+        key_decisions: ["A decision\nFiles: not a label"],
+        files: [],
+      })
+    ).toBe(["Problem: Two lines", "Key decisions:", "- A decision Files: not a label"].join("\n"));
+  });
+
+  it("returns null when there is nothing to say", () => {
+    expect(
+      renderSummary({ problem: null, root_cause: null, solution: null, key_decisions: [], files: [] })
+    ).toBeNull();
+  });
+});
+
+describe("ExtractiveSummarizer", () => {
+  const summarizer = new ExtractiveSummarizer();
+
+  const TRANSCRIPT = [
+    "**User**",
+    "Requests to the billing API time out after a deploy. How do I fix it?",
+    "---",
+    "**Cursor**",
+    "The timeouts happen because the connection pool is exhausted while old pods drain. We decided to keep the pool small rather than add replicas.",
+    "---",
+    "**User**",
+    "What should I change?",
+    "---",
+    "**Cursor**",
+    "Set the pool timeout in `src/db/pool.ts` to five seconds.",
+    ["```ts:src/db/pool.ts", "export const pool = new Pool({ idleTimeoutMillis: 5000 });", "```"].join("\n"),
+  ].join("\n\n");
+
+  it("picks the question, cause, fix, decisions and files from a transcript", async () => {
+    const messages = parseTranscript(TRANSCRIPT)!.messages;
+    const summary = await summarizer.summarize({
+      title: "Billing timeouts",
+      content: TRANSCRIPT,
+      messages,
+      fileContext: ["docs/runbook.md"],
+    });
+
+    expect(summary.problem).toBe(
+      "Requests to the billing API time out after a deploy. How do I fix it?"
+    );
+    expect(summary.root_cause).toBe(
+      "The timeouts happen because the connection pool is exhausted while old pods drain."
+    );
+    expect(summary.solution).toBe("Set the pool timeout in `src/db/pool.ts` to five seconds.");
+    expect(summary.key_decisions).toEqual([
+      "We decided to keep the pool small rather than add replicas.",
+    ]);
+    expect(summary.files).toEqual(["docs/runbook.md", "src/db/pool.ts"]);
+  });
+
+  it("reads free-form content as a question followed by an answer", async () => {
+    const summary = await summarizer.summarize({
+      title: "Flaky CI",
+      content:
+        "CI fails randomly on the e2e job.\n\nThe cause was a shared port. Switched to random ports in test/setup.ts.",
+      messages: null,
+      fileContext: [],
+    });
+
+    expect(summary.problem).toBe("CI fails randomly on the e2e job.");
+    expect(summary.root_cause).toBe("The cause was a shared port.");
+    expect(summary.solution).toBe("Switched to random ports in test/setup.ts.");
+    expect(summary.files).toEqual(["test/setup.ts"]);
+  });
+
+  it("falls back to the title when there is no question", async () => {
+    const summary = await summarizer.summarize({
+      title: "Notes",
+      content: "ok",
+      messages: null,
+      fileContext: [],
+    });
+    expect(summary).toEqual({
+      problem: "Notes",
+      root_cause: null,
+      solution: null,
+      key_decisions: [],
+      files: [],
+    });
+  });
+});
+
+describe("regenerateSummary", () => {
+  const embeddings = new HashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+  const fixed: Summarizer = {
+    name: "fixed",
+    async summarize() {
+      return {
+        problem: "A fresh problem",
+        root_cause: null,
+        solution: "A fresh solution",
+        key_decisions: [],
+        files: ["src/a.ts"],
+      };
+    },
+  };
+  let dir: string;
+  let db: LocalDB;
+  let id: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-summary-"));
+    db = new LocalDB(join(dir, "knowledge.json"));
+    const input = SaveConversationSchema.parse({
+      title: "Old entry",
+      content: "Some old notes.",
+      generate_summary: false,
+      auto_find_export: false,
+    });
+    id = (await saveConversation(input, db, embeddings, "team", "alice")).id!;
+    await db.updateConversation(id, "alice", "team", { summary: "Hand-written summary" });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("stores the rendered summary and returns the previous one", async () => {
+    const result = await regenerateSummary(
+      RegenerateSummarySchema.parse({ id }),
+      db,
+      "team",
+      "alice",
+      fixed
+    );
+
+    expect(result?.previous).toBe("Hand-written summary");
+    expect(result?.summary.solution).toBe("A fresh solution");
+    expect((await db.getConversation(id, "team", "alice"))?.summary).toBe(
+      "Problem: A fresh problem\nSolution: A fresh solution\nFiles:\n- src/a.ts"
+    );
+  });
+
+  it("only regenerates the caller's own conversations", async () => {
+    const result = await regenerateSummary(
+      RegenerateSummarySchema.parse({ id }),
+      db,
+      "team",
+      "bob",
+      fixed
+    );
+
+    expect(result).toBeNull();
+    expect((await db.getConversation(id, "team", "alice"))?.summary).toBe("Hand-written summary");
+  });
+});
@@ -0,0 +1,195 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { LocalDB } from "../src/db/local.js";
+import { normalizeTag } from "../src/db/tags.js";
+import { mergeTags, normalizeTags, renameTag } from "../src/tools/tags.js";
+import { addMember, migratedDatabase, signInAs, signInAsService } from "./postgres.js";
+
+describe("normalizeTag", () => {
+  it.each([
+    ["Rate Limiting", "rate-limiting"],
+    ["  snake_case  ", "snake-case"],
+    ["--Auth--", "auth"],
+    ["C++", "c++"],
+    ["C#", "c#"],
+    ["Node.JS!", "node.js"],
+    ["CI/CD", "ci/cd"],
+    ["Über Café", "über-café"],
+  ])("writes %j as %j", (tag, normalized) => {
+    expect(normalizeTag(tag)).toBe(normalized);
+  });
+});
+
+describe("merging and renaming tags with local storage", () => {
+  const team = "team";
+  let dir: string;
+  let db: LocalDB;
+  let alicePublic: string;
+  let bobPrivate: string;
+  let otherTeam: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "lytics-tags-"));
+    db = new LocalDB(join(dir, "knowledge.json"));
+    const base = { content: "x", embedding: [1, 0, 0], is_public: true };
+    alicePublic = await db.saveConversation({
+      ...base,
+      user_id: "alice",
+      team_id: team,
+      title: "a",
+      tags: ["Auth", "jwt"],
+    });
+    bobPrivate = await db.saveConversation({
+      ...base,
+      user_id: "bob",
+      team_id: team,
+      title: "b",
+      tags: ["authentication", "AUTH ", "sso"],
+      is_public: false,
+    });
+    otherTeam = await db.saveConversation({
+      ...base,
+      user_id: "bob",
+      team_id: "other",
+      title: "c",
+      tags: ["Authentication"],
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("folds every spelling team-wide, other members' private entries included", async () => {
+    const result = await mergeTags({ tags: ["Authentication"], into: "auth" }, db, team, "alice");
+
+    expect(result).toMatchObject({ tag: "auth", aliases: ["authentication"], conversations_updated: 2 });
+    expect((await db.getConversation(alicePublic, team, "alice"))?.tags).toEqual(["auth", "jwt"]);
+    expect((await db.getConversation(bobPrivate, team, "bob"))?.tags).toEqual(["auth", "sso"]);
+    expect((await db.getConversation(otherTeam, "other", "bob"))?.tags).toEqual(["Authentication"]);
+  });
+
+  it("maps later saves of a merged spelling to the target", async () => {
+    await mergeTags({ tags: ["authentication", "login"], into: "auth" }, db, team, "alice");
+    expect(await normalizeTags(["Login", "Authentication", "api"], db, team)).toEqual([
+      "auth",
+      "api",
+    ]);
+  });
+
+  it("carries the aliases of merged vocabulary entries over", async () => {
+    await mergeTags({ tags: ["login"], into: "authentication" }, db, team, "alice");
+    await mergeTags({ tags: ["authentication"], into: "auth" }, db, team, "alice");
+
+    expect(await db.listTags(team)).toEqual([
+      expect.objectContaining({ name: "auth", aliases: ["authentication", "login"] }),
+    ]);
+  });
+
+  it("refuses to merge into an alias", async () => {
+    await mergeTags({ tags: ["authentication"], into: "auth" }, db, team, "alice");
+    await expect(
+      mergeTags({ tags: ["sso"], into: "Authentication" }, db, team, "alice")
+    ).rejects.toThrow('"authentication" is an alias of "auth"');
+  });
+
+  it("renames a tag and keeps the old name as an alias", async () => {
+    const result = await renameTag({ from: "JWT", to: "json-web-token" }, db, team, "alice");
+
+    expect(result).toMatchObject({ tag: "json-web-token", aliases: ["jwt"], conversations_updated: 1 });
+    expect((await db.getConversation(alicePublic, team, "alice"))?.tags).toEqual([
+      "Auth",
+      "json-web-token",
+    ]);
+    expect(await normalizeTags(["jwt"], db, team)).toEqual(["json-web-token"]);
+  });
+
+  it("refuses to rename an unknown tag or onto an existing one", async () => {
+    await expect(renameTag({ from: "nope", to: "new" }, db, team, "alice")).rejects.toThrow(
+      "Tag not found: nope"
+    );
+    await expect(renameTag({ from: "jwt", to: "SSO" }, db, team, "bob")).rejects.toThrow(
+      '"sso" is already a tag. Use merge_tags'
+    );
+  });
+});
+
+describe("merge_team_tags in Postgres", () => {
+  let pg: PGlite;
+  let aliceToken: string;
+
+  beforeAll(async () => {
+    pg = await migratedDatabase();
+    aliceToken = await addMember(pg, "team", "alice");
+    await addMember(pg, "team", "bob");
+    await addMember(pg, "other", "carol");
+  }, 60_000);
+
+  afterAll(async () => {
+    await pg?.close();
+  });
+
+  beforeEach(async () => {
+    await signInAsService(pg);
+    await pg.exec(`
+      delete from conversations;
+      delete from tags;
+      insert into conversations (id, user_id, team_id, title, content, tags, is_public) values
+        ('00000000-0000-0000-0000-000000000001', 'alice', 'team', 'a', 'x', array['Auth', 'jwt'], true),
+        ('00000000-0000-0000-0000-000000000002', 'bob', 'team', 'b', 'x', array['authentication', 'AUTH ', 'sso'], false),
+        ('00000000-0000-0000-0000-000000000003', 'carol', 'other', 'c', 'x', array['Authentication'], true);
+    `);
+  });
+
+  async function tagsById(): Promise<Record<string, string[]>> {
+    const { rows } = await pg.query<{ id: string; tags: string[] }>(
+      "select id, tags from conversations order by id"
+    );
+    return Object.fromEntries(rows.map((row) => [row.id.slice(-1), row.tags]));
+  }
+
+  it("normalizes like the server", async () => {
+    const samples = ["Rate Limiting", "  snake_case  ", "--Auth--", "C++", "Node.JS!", "CI/CD", "Über Café"];
+    const { rows } = await pg.query<{ normalized: string }>(
+      "select normalize_tag(tag) as normalized from unnest($1::text[]) as tag",
+      [samples]
+    );
+    expect(rows.map((row) => row.normalized)).toEqual(samples.map(normalizeTag));
+  });
+
+  it("folds every spelling team-wide, other members' private entries included", async () => {
+    await signInAs(pg, aliceToken);
+    const { rows } = await pg.query<{ changed: number }>(
+      "select merge_team_tags('team', 'alice', array['authentication'], 'auth') as changed"
+    );
+
+    expect(rows[0].changed).toBe(2);
+    expect(await tagsById()).toEqual({
+      "1": ["auth", "jwt"],
+      "2": ["auth", "sso"],
+      "3": ["Authentication"],
+    });
+    const { rows: vocabulary } = await pg.query("select name, aliases, updated_by from tags");
+    expect(vocabulary).toEqual([{ name: "auth", aliases: ["authentication"], updated_by: "alice" }]);
+  });
+
+  it("carries the aliases of merged vocabulary entries over", async () => {
+    await pg.query("select merge_team_tags('team', 'alice', array['login'], 'authentication')");
+    await pg.query("select merge_team_tags('team', 'alice', array['authentication'], 'auth')");
+
+    const { rows } = await pg.query("select name, aliases from tags");
+    expect(rows).toEqual([{ name: "auth", aliases: ["authentication", "login"] }]);
+  });
+
+  it("refuses callers outside the team", async () => {
+    await signInAs(pg, "lmcp_not-a-token");
+    await expect(
+      pg.query("select merge_team_tags('team', 'mallory', array['sso'], 'auth')")
+    ).rejects.toThrow("Not a member of team team");
+    expect((await tagsById())["2"]).toEqual(["authentication", "AUTH ", "sso"]);
+  });
+});
@@ -0,0 +1,340 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  isTranscriptFile,
+  parseTranscript,
+  type TranscriptFormat,
+} from "../src/transcripts/importer.js";
+
+const CURSOR_EXPORT = [
+  "# Fix the login redirect",
+  "_Exported on 1/2/2026 from Cursor_",
+  "---",
+  "**User**",
+  "The login page redirects in a loop.",
+  "---",
+  "**Cursor**",
+  "The session cookie isn't set. Change this:",
+  ["```ts:src/auth.ts", 'res.cookie("session", token, { sameSite: "lax" });', "```"].join("\n"),
+].join("\n\n");
+
+const MARKDOWN_EXPORT = [
+  "# Caching question",
+  "## Human",
+  "Should we cache the config?",
+  "## Assistant",
+  "Yes, for a minute.",
+].join("\n\n");
+
+const CLAUDE_EXPORT = [
+  {
+    name: "Older chat",
+    updated_at: "2026-01-01T00:00:00Z",
+    chat_messages: [
+      { sender: "human", text: "Old question" },
+      { sender: "assistant", text: "Old answer" },
+    ],
+  },
+  {
+    name: "Queue backpressure",
+    updated_at: "2026-02-01T00:00:00Z",
+    chat_messages: [
+      { sender: "human", content: [{ type: "text", text: "The queue keeps growing." }] },
+      {
+        sender: "assistant",
+        content: [
+          { type: "text", text: "Slow the producers down." },
+          { type: "tool_use", text: "ignored" },
+        ],
+      },
+    ],
+  },
+];
+
+const COPILOT_EXPORT = {
+  requests: [
+    {
+      message: { text: "Why is this test flaky?" },
+      response: [
+        { value: "It depends on " },
+        { kind: "inlineReference", value: { uri: "file:///a.ts" } },
+        { kind: "markdownContent", content: { value: "the clock." } },
+      ],
+    },
+  ],
+};
+
+const JSONL_LOG = [
+  JSON.stringify({ type: "summary", summary: "bookkeeping" }),
+  JSON.stringify({ type: "user", message: { role: "user", content: "Rename the table" } }),
+  JSON.stringify({
+    type: "assistant",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Done with a migration." },
+        { type: "tool_use", name: "edit" },
+      ],
+    },
+  }),
+  "not json",
+].join("\n");
+
+function chatgptNode(parent: string | null, role: string, text: string) {
+  return {
+    parent,
+    message: { author: { role }, content: { content_type: "text", parts: [text] } },
+  };
+}
+
+describe("ChatGPT importer", () => {
+  it("follows the branch ending at current_node", () => {
+    const parsed = parseTranscript(
+      JSON.stringify({
+        title: "Retry logic",
+        current_node: "c",
+        mapping: {
+          a: chatgptNode(null, "user", "How should I retry?"),
+          b: chatgptNode("a", "assistant", "An answer that was regenerated"),
+          c: chatgptNode("a", "assistant", "Use exponential backoff."),
+        },
+      })
+    );
+
+    expect(parsed?.format).toBe("chatgpt");
+    expect(parsed?.title).toBe("Retry logic");
+    expect(parsed?.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "How should I retry?"],
+      ["assistant", "Use exponential backoff."],
+    ]);
+  });
+
+  it("stops at parent links that loop", () => {
+    const looped = JSON.stringify({
+      mapping: { a: { parent: "b" }, b: { parent: "a" } },
+      current_node: "a",
+    });
+    expect(parseTranscript(looped)).toBeNull();
+
+    const parsed = parseTranscript(
+      JSON.stringify({
+        current_node: "b",
+        mapping: {
+          a: chatgptNode("b", "user", "Question"),
+          b: chatgptNode("a", "assistant", "Answer"),
+        },
+      })
+    );
+    expect(parsed?.messages.map((m) => m.content)).toEqual(["Question", "Answer"]);
+  });
+
+  it("ignores a mapping that isn't an object of nodes", () => {
+    expect(parseTranscript(JSON.stringify({ mapping: ["a"], current_node: "0" }))).toBeNull();
+    expect(
+      parseTranscript(JSON.stringify({ mapping: {}, current_node: "constructor" }))
+    ).toBeNull();
+  });
+});
+
+describe("format detection", () => {
+  it.each<[string, string, TranscriptFormat]>([
+    ["a Cursor export", CURSOR_EXPORT, "cursor"],
+    ["a markdown chat", MARKDOWN_EXPORT, "markdown"],
+    ["a Claude export", JSON.stringify(CLAUDE_EXPORT), "claude"],
+    ["a Copilot chat", JSON.stringify(COPILOT_EXPORT), "copilot"],
+    ["a JSONL log", JSONL_LOG, "jsonl"],
+    [
+      "a chat-completions array",
+      JSON.stringify([
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello" },
+      ]),
+      "jsonl",
+    ],
+  ])("recognises %s", (_, text, format) => {
+    expect(parseTranscript(text)?.format).toBe(format);
+  });
+
+  it("leaves text that isn't a transcript alone", () => {
+    expect(parseTranscript("Just some notes about the deploy.")).toBeNull();
+    expect(parseTranscript("## User\n\nA document with a user section")).toBeNull();
+    expect(parseTranscript(JSON.stringify({ name: "package" }))).toBeNull();
+  });
+
+  it("finds export files by name", () => {
+    expect(isTranscriptFile("cursor_fix_login.md")).toBe(true);
+    expect(isTranscriptFile("conversations.json")).toBe(true);
+    expect(isTranscriptFile("chat-export.json")).toBe(true);
+    expect(isTranscriptFile("session.jsonl")).toBe(true);
+    expect(isTranscriptFile("README.md")).toBe(false);
+    expect(isTranscriptFile("package.json")).toBe(false);
+  });
+});
+
+describe("format hint", () => {
+  it("uses the named importer instead of detection", () => {
+    const parsed = parseTranscript(CURSOR_EXPORT, { format: "markdown" });
+    expect(parsed?.format).toBe("markdown");
+  });
+
+  it("reports content that isn't in the named format", () => {
+    expect(() => parseTranscript(CURSOR_EXPORT, { format: "chatgpt" })).toThrow(
+      "The content isn't a ChatGPT export, or it has no messages."
+    );
+    expect(() => parseTranscript(JSON.stringify(COPILOT_EXPORT), { format: "claude" })).toThrow(
+      "isn't a Claude export"
+    );
+  });
+
+  it("treats auto as no hint", () => {
+    expect(parseTranscript(JSONL_LOG, { format: "auto" })?.format).toBe("jsonl");
+  });
+});
+
+describe("importers", () => {
+  it("splits a Cursor export into turns with code blocks", () => {
+    const parsed = parseTranscript(CURSOR_EXPORT)!;
+    expect(parsed.title).toBe("Fix the login redirect");
+    expect(parsed.content).toBe(CURSOR_EXPORT);
+    expect(parsed.messages.map((m) => m.role)).toEqual(["user", "assistant"]);
+    expect(parsed.messages[0].content).toBe("The login page redirects in a loop.");
+    expect(parsed.messages[1].code_blocks).toEqual([
+      { language: "ts", file: "src/auth.ts", code: 'res.cookie("session", token, { sameSite: "lax" });' },
+    ]);
+  });
+
+  it("doesn't take speaker lines inside code blocks for turns", () => {
+    const text = [
+      "**User**",
+      "What does this print?",
+      "```md",
+      "**Cursor**",
+      "```",
+      "**Cursor**",
+      "The bold word.",
+    ].join("\n\n");
+    const parsed = parseTranscript(text)!;
+    expect(parsed.messages).toHaveLength(2);
+    expect(parsed.messages[0].content).toContain("**Cursor**");
+  });
+
+  it("doesn't take Object.prototype names for Cursor speakers", () => {
+    const text = ["**User**", "constructor", "toString", "**Cursor**", "__proto__"].join("\n\n");
+    const parsed = parseTranscript(text)!;
+    expect(parsed.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "constructor\n\ntoString"],
+      ["assistant", "__proto__"],
+    ]);
+  });
+
+  it("reads a markdown chat's speakers and title", () => {
+    const parsed = parseTranscript(MARKDOWN_EXPORT)!;
+    expect(parsed.title).toBe("Caching question");
+    expect(parsed.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "Should we cache the config?"],
+      ["assistant", "Yes, for a minute."],
+    ]);
+  });
+
+  it("picks the Claude conversation by title, else the latest", () => {
+    const text = JSON.stringify(CLAUDE_EXPORT);
+
+    const latest = parseTranscript(text)!;
+    expect(latest.title).toBe("Queue backpressure");
+    expect(latest.messages.map((m) => m.content)).toEqual([
+      "The queue keeps growing.",
+      "Slow the producers down.",
+    ]);
+    expect(latest.content).toContain("_Imported from Claude_");
+
+    expect(parseTranscript(text, { titleHint: "older chat" })?.title).toBe("Older chat");
+  });
+
+  it("picks nothing from a multi-conversation export when a title match is required", () => {
+    const text = JSON.stringify(CLAUDE_EXPORT);
+    expect(parseTranscript(text, { titleHint: "Unknown", requireTitleMatch: true })).toBeNull();
+    expect(
+      parseTranscript(text, { titleHint: "Queue", requireTitleMatch: true })?.title
+    ).toBe("Queue backpressure");
+    expect(
+      parseTranscript(JSON.stringify([CLAUDE_EXPORT[0]]), {
+        titleHint: "Unknown",
+        requireTitleMatch: true,
+      })?.title
+    ).toBe("Older chat");
+  });
+
+  it("joins the markdown parts of a Copilot response", () => {
+    const parsed = parseTranscript(JSON.stringify(COPILOT_EXPORT))!;
+    expect(parsed.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "Why is this test flaky?"],
+      ["assistant", "It depends on the clock."],
+    ]);
+  });
+
+  it("reads JSONL logs, skipping bookkeeping, tool calls and broken lines", () => {
+    const parsed = parseTranscript(JSONL_LOG)!;
+    expect(parsed.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "Rename the table"],
+      ["assistant", "Done with a migration."],
+    ]);
+  });
+
+  it("ignores JSONL roles that are Object.prototype names", () => {
+    const text = [
+      { role: "constructor", content: "not a turn" },
+      { role: "toString", content: "not a turn either" },
+      { role: "user", content: "Question" },
+      { role: "assistant", content: "Answer" },
+    ]
+      .map((record) => JSON.stringify(record))
+      .join("\n");
+    expect(parseTranscript(text)?.messages.map((m) => m.content)).toEqual([
+      "Question",
+      "Answer",
+    ]);
+  });
+});
+
+describe("malformed input", () => {
+  const FORMATS: (TranscriptFormat | "auto")[] = [
+    "auto",
+    "chatgpt",
+    "claude",
+    "copilot",
+    "jsonl",
+    "cursor",
+    "markdown",
+  ];
+
+  it.each([
+    ["a Claude export without a message list", { chat_messages: 5 }],
+    ["null Claude messages", { chat_messages: [null] }],
+    ["Claude content that isn't a list", { chat_messages: [{ sender: "human", content: "x" }] }],
+    ["null Copilot requests", { requests: [null] }],
+    ["a Copilot response that isn't a list", { requests: [{ response: "x" }] }],
+    ["a Copilot question that isn't text", { requests: [{ message: { text: 5 } }] }],
+    [
+      "ChatGPT parts that aren't a list",
+      { mapping: { a: { message: { author: { role: "user" }, content: { parts: "x" } } } }, current_node: "a" },
+    ],
+    ["a null ChatGPT mapping", [{ mapping: null }]],
+    ["JSONL content blocks that aren't objects", { messages: [{ role: "user", content: [null, 5] }] }],
+    ["a scalar", 5],
+    ["null", null],
+    ["a list of nulls", [null]],
+  ])("handles %s without crashing", (_, value) => {
+    const text = JSON.stringify(value);
+    for (const format of FORMATS) {
+      let parsed;
+      try {
+        parsed = parseTranscript(text, { format });
+      } catch (error) {
+        // A hint the content doesn't match is reported, nothing else
+        expect((error as Error).message).toMatch(/isn't an? .* export, or it has no messages/);
+        continue;
+      }
+      expect(parsed).toBeNull();
+    }
+  });
+});